@@ -0,0 +1,143 @@
+import { ActionOptions, ActionRetryOptions, _Method } from './types'
+
+const actionOptionsMap = /*#__PURE__*/ new WeakMap<_Method, ActionOptions>()
+
+/**
+ * Attaches options to an action. Meant to be used in setup stores, option
+ * stores can use the `actionOptions` option instead.
+ *
+ * @example
+ * ```ts
+ * const useStore = defineStore('form', () => {
+ *   const data = ref({})
+ *   const save = defineAction(async () => {
+ *     data.value.saving = true
+ *     await api.save(data.value)
+ *   }, { transactional: true })
+ *   return { data, save }
+ * })
+ * ```
+ *
+ * @param action - action to configure
+ * @param options - options of the action
+ * @returns action
+ */
+export function defineAction<F extends _Method>(
+  action: F,
+  options: ActionOptions
+): F {
+  actionOptionsMap.set(action, options)
+  return action
+}
+
+/**
+ * 获取通过 `defineAction()` 设置的 action 配置
+ *
+ * @param action - action
+ * @returns action 的配置，没有设置时返回 undefined
+ */
+export function getActionOptions(action: _Method): ActionOptions | undefined {
+  return actionOptionsMap.get(action)
+}
+
+/**
+ * Reason used to abort the `AbortSignal` of an action cancelled with
+ * `store.$cancel()`. Actions cancelled this way reject with it and `onError()`
+ * callbacks of `store.$onAction()` receive it, allowing to tell cancellations
+ * apart from other errors. Invocations of a `takeLatest` action cancelled by
+ * a newer invocation settle with the result of the newer one instead.
+ */
+export class ActionCancelledError extends Error {
+  /**
+   * `id` of the store the action belongs to.
+   */
+  storeId: string
+
+  /**
+   * Name of the cancelled action.
+   */
+  actionName: string
+
+  constructor(storeId: string, actionName: string) {
+    super(`🍍: Action "${actionName}" of store "${storeId}" was cancelled.`)
+    this.name = 'ActionCancelledError'
+    this.storeId = storeId
+    this.actionName = actionName
+  }
+}
+
+// 当前同步执行的 action 的 signal
+let activeActionSignal: AbortSignal | undefined
+
+/**
+ * Returns the `AbortSignal` of the action being executed. Allows setup store
+ * actions to access the signal that option store actions get with
+ * `this.$signal`. It must be called synchronously at the beginning of the
+ * action, before any `await`.
+ *
+ * @example
+ * ```ts
+ * const useStore = defineStore('search', () => {
+ *   const results = ref([])
+ *   async function search(query: string) {
+ *     const signal = getActionSignal()!
+ *     results.value = await api.search(query, { signal })
+ *   }
+ *   return { results, search }
+ * })
+ * ```
+ */
+export function getActionSignal(): AbortSignal | undefined {
+  return activeActionSignal
+}
+
+/**
+ * 设置当前执行的 action 的 signal
+ *
+ * @param signal - 当前 action 的 signal
+ * @returns 之前的 signal，action 同步部分执行完之后需要恢复
+ */
+export function setActionSignal(signal: AbortSignal | undefined) {
+  const previousSignal = activeActionSignal
+  activeActionSignal = signal
+  return previousSignal
+}
+
+/**
+ * 填充了默认值的 retry 配置
+ */
+export type _NormalizedRetryOptions = Required<
+  Omit<ActionRetryOptions, 'maxDelay'>
+> &
+  Pick<ActionRetryOptions, 'maxDelay'>
+
+/**
+ * 将 action 的 retry 配置转换为填充了默认值的对象
+ *
+ * @param retry - action 的 retry 配置
+ * @returns 没有配置 retry 时返回 undefined
+ */
+export function normalizeRetryOptions(
+  retry: ActionOptions['retry']
+): _NormalizedRetryOptions | undefined {
+  if (!retry) return
+  return Object.assign(
+    { attempts: 3, delay: 0, factor: 2, shouldRetry: () => true },
+    typeof retry === 'number' ? { attempts: retry } : retry
+  )
+}
+
+/**
+ * 计算第 attempt 次失败之后，重试之前需要等待的时间（指数退避）
+ *
+ * @param options - retry 配置
+ * @param attempt - 失败的是第几次尝试，从 1 开始
+ * @returns 等待的毫秒数
+ */
+export function getRetryDelay(
+  options: _NormalizedRetryOptions,
+  attempt: number
+): number {
+  const delay = options.delay * Math.pow(options.factor, attempt - 1)
+  return options.maxDelay == null ? delay : Math.min(delay, options.maxDelay)
+}
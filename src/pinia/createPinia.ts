@@ -1,14 +1,23 @@
-import { Pinia, PiniaPlugin, setActivePinia, piniaSymbol } from './rootStore';
+import {
+  Pinia,
+  PiniaOptions,
+  PiniaPlugin,
+  setActivePinia,
+  piniaSymbol,
+} from './rootStore';
 import { ref, App, markRaw, effectScope, isVue2, Ref } from 'vue-demi';
 import { registerPiniaDevtools, devtoolsPlugin } from './devtools';
 import { USE_DEVTOOLS } from './env';
 import { StateTree, StoreGeneric } from './types';
+import { addSubscription } from './subscriptions';
+import { createSerializerRegistry } from './serializers';
 import Log from '../utils/log';
 
 /**
  * 创建应用程序要使用的Pinia实例
+ * @param options 配置选项
  */
-export function createPinia(): Pinia {
+export function createPinia(options: PiniaOptions = {}): Pinia {
 	Log("createPinia()");
 
 	/**
@@ -66,6 +75,77 @@ export function createPinia(): Pinia {
 			return this;
 		},
 
+    /**
+     * 在所有已创建的 store 的 $batch 中执行 fn
+     * @param fn 修改 state 的函数
+     * @returns fn 的返回值
+     */
+    batch(fn) {
+      return Array.from(pinia._s.values()).reduceRight<() => ReturnType<typeof fn>>(
+        (run, store) => () => store.$batch(run),
+        fn
+      )();
+    },
+
+    /**
+     * 添加错误处理函数，所有 store 中 action、getter 和订阅回调抛出的错误都会传给它
+     * @param handler 错误处理函数
+     * @returns 移除处理函数的函数
+     */
+    onActionError(handler) {
+      return addSubscription(pinia._eh, handler, true);
+    },
+
+    /**
+     * 获取 store 之间的依赖关系
+     * @returns key 为 store 的 id，value 为它使用的 store 的 id
+     */
+    getDependencyGraph() {
+      const graph: Record<string, string[]> = {};
+      pinia._s.forEach((_store, id) => {
+        graph[id] = [];
+      });
+      pinia._d.forEach((dependencies, id) => {
+        graph[id] = Array.from(dependencies);
+      });
+      return graph;
+    },
+
+    /**
+     * 添加 store 创建之后的回调
+     * @param callback 回调
+     * @returns 移除回调的函数
+     */
+    onStoreCreated(callback) {
+      return addSubscription(pinia._h.created, callback, true);
+    },
+
+    /**
+     * 添加 store 销毁之后的回调
+     * @param callback 回调
+     * @returns 移除回调的函数
+     */
+    onStoreDisposed(callback) {
+      return addSubscription(pinia._h.disposed, callback, true);
+    },
+
+    /**
+     * 添加 store 热更新之后的回调
+     * @param callback 回调
+     * @returns 移除回调的函数
+     */
+    onStoreHotUpdated(callback) {
+      return addSubscription(pinia._h.hotUpdated, callback, true);
+    },
+
+    /**
+     * 销毁所有已创建的 store
+     * @param options $dispose 的配置
+     */
+    disposeAll(options) {
+      Array.from(pinia._s.values()).forEach((store) => store.$dispose(options));
+    },
+
 		_p, // 所有的 pinia 插件
 		// it's actually undefined here
 		// @ts-expect-error
@@ -73,6 +153,14 @@ export function createPinia(): Pinia {
 		_e: scope,  // pinia 的作用域对象，每个 store 都有单独的 scope
 		_s: new Map<string, StoreGeneric>(),  // store 缓存，key 为 pinia 的 id，value 为 pinia 对外暴漏的数据
 		state,      // pinia 所有的 state 的合集，key 为 pinia 的 id，value 为 store 下所有的 state
+		serializers: createSerializerRegistry(), // state 与 JSON 互相转换时使用的序列化器
+		_eh: options.onActionError ? [options.onActionError] : [], // 错误处理函数
+		_d: new Map<string, Set<string>>(), // store 之间的依赖关系，key 为 store 的 id，value 为它使用的 store 的 id
+		_h: { created: [], disposed: [], hotUpdated: [] }, // store 生命周期的回调
+		_strict: options.strict, // 严格模式，只在开发环境生效
+		_vr: options.onValidationError, // state 校验失败时的报告函数
+		_hr: options.onHydrationMismatch, // 服务端和客户端 state 不一致时的报告函数
+		_is: {}, // 开发环境下 store 创建时的 state，服务端记录后随 state 一起序列化
 	});
 
 	// pinia devtools rely on dev only features so they cannot be forced unless
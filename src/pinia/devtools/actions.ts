@@ -1,4 +1,5 @@
 import { Pinia } from '../rootStore'
+import { StateTree } from '../types'
 import { saveAs } from './file-saver'
 import { toastMessage } from './utils'
 
@@ -23,10 +24,31 @@ function checkNotFocusedError(error: unknown): error is Error {
   return false
 }
 
+/**
+ * Replaces the state of each store with the one in `state` so subscriptions
+ * are notified with a `replaceState` mutation. The state of stores that are
+ * not instantiated yet is directly set in `pinia.state`.
+ *
+ * @param pinia - pinia instance
+ * @param state - new root state
+ */
+function loadState(pinia: Pinia, state: Record<string, StateTree>) {
+  for (const id in state) {
+    const store = pinia._s.get(id)
+    if (store) {
+      store.$state = state[id]
+    } else {
+      pinia.state.value[id] = state[id]
+    }
+  }
+}
+
 export async function actionGlobalCopyState(pinia: Pinia) {
   if (checkClipboardAccess()) return
   try {
-    await navigator.clipboard.writeText(JSON.stringify(pinia.state.value))
+    await navigator.clipboard.writeText(
+      pinia.serializers.stringify(pinia.state.value)
+    )
     toastMessage('Global state copied to clipboard.')
   } catch (error) {
     if (checkNotFocusedError(error)) return
@@ -41,7 +63,10 @@ export async function actionGlobalCopyState(pinia: Pinia) {
 export async function actionGlobalPasteState(pinia: Pinia) {
   if (checkClipboardAccess()) return
   try {
-    pinia.state.value = JSON.parse(await navigator.clipboard.readText())
+    loadState(
+      pinia,
+      pinia.serializers.parse(await navigator.clipboard.readText())
+    )
     toastMessage('Global state pasted from clipboard.')
   } catch (error) {
     if (checkNotFocusedError(error)) return
@@ -56,7 +81,7 @@ export async function actionGlobalPasteState(pinia: Pinia) {
 export async function actionGlobalSaveState(pinia: Pinia) {
   try {
     saveAs(
-      new Blob([JSON.stringify(pinia.state.value)], {
+      new Blob([pinia.serializers.stringify(pinia.state.value)], {
         type: 'text/plain;charset=utf-8',
       }),
       'pinia-state.json'
@@ -102,7 +127,7 @@ export async function actionGlobalOpenStateFile(pinia: Pinia) {
     const result = await open()
     if (!result) return
     const { text, file } = result
-    pinia.state.value = JSON.parse(text)
+    loadState(pinia, pinia.serializers.parse(text))
     toastMessage(`Global state imported from "${file.name}".`)
   } catch (error) {
     toastMessage(
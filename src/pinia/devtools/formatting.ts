@@ -7,6 +7,7 @@ import { MutationType, StoreGeneric } from '../types'
 import { DebuggerEvent } from 'vue-demi'
 import { Pinia } from '../rootStore'
 import { isPinia } from './utils'
+import { getMemoizedGetterCache } from '../getters'
 
 export function formatDisplay(display: string) {
   return {
@@ -54,13 +55,20 @@ export function formatStoreForInspectorState(
             editable: false,
             key: id,
             value: store._getters!.reduce((getters, key) => {
-              getters[key] = store[key]
+              getters[key] = formatGetter(store, key)
               return getters
             }, {} as Record<string, any>),
           }
         }),
     }
 
+    const graph = store.getDependencyGraph()
+    state.dependencies = storeNames.map((storeId) => ({
+      editable: false,
+      key: storeId,
+      value: graph[storeId] || [],
+    }))
+
     return state
   }
 
@@ -77,10 +85,21 @@ export function formatStoreForInspectorState(
     state.getters = store._getters.map((getterName) => ({
       editable: false,
       key: getterName,
-      value: store[getterName],
+      value: formatGetter(store, getterName),
     }))
   }
 
+  const dependencies = store._p.getDependencyGraph()[store.$id]
+  if (dependencies && dependencies.length) {
+    state.dependencies = [
+      {
+        editable: false,
+        key: 'stores',
+        value: dependencies,
+      },
+    ]
+  }
+
   if (store._customProperties.size) {
     state.customProperties = Array.from(store._customProperties).map((key) => ({
       editable: true,
@@ -92,6 +111,15 @@ export function formatStoreForInspectorState(
   return state
 }
 
+/**
+ * Getters created with `memoizeGetter()` are functions: display their cached
+ * results instead.
+ */
+export function formatGetter(store: StoreGeneric, key: string) {
+  const getter = store[key]
+  return getMemoizedGetterCache(getter) || getter
+}
+
 export function formatEventData(
   events: DebuggerEvent[] | DebuggerEvent | undefined
 ) {
@@ -131,6 +159,10 @@ export function formatMutationType(type: MutationType): string {
       return '$patch'
     case MutationType.patchObject:
       return '$patch'
+    case MutationType.reset:
+      return '$reset'
+    case MutationType.replaceState:
+      return '$state'
     default:
       return 'unknown'
   }
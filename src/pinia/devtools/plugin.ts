@@ -21,6 +21,7 @@ import {
 import {
   formatDisplay,
   formatEventData,
+  formatGetter,
   formatMutationType,
   formatStoreForInspectorState,
   formatStoreForInspectorTree,
@@ -118,7 +119,7 @@ export function registerPiniaDevtools(app: DevtoolsApp, pinia: Pinia) {
         nodeActions: [
           {
             icon: 'restore',
-            tooltip: 'Reset the state (option store only)',
+            tooltip: 'Reset the state',
             action: (nodeId) => {
               const store = pinia._s.get(nodeId)
               if (!store) {
@@ -126,11 +127,6 @@ export function registerPiniaDevtools(app: DevtoolsApp, pinia: Pinia) {
                   `Cannot reset "${nodeId}" store because it wasn't found.`,
                   'warn'
                 )
-              } else if (!store._isOptionsAPI) {
-                toastMessage(
-                  `Cannot reset "${nodeId}" store because it's a setup store.`,
-                  'warn'
-                )
               } else {
                 store.$reset()
                 toastMessage(`Store "${nodeId}" reset.`)
@@ -182,7 +178,7 @@ export function registerPiniaDevtools(app: DevtoolsApp, pinia: Pinia) {
                 editable: false,
                 value: store._getters.reduce((getters, key) => {
                   try {
-                    getters[key] = store[key]
+                    getters[key] = formatGetter(store, key)
                   } catch (error) {
                     // @ts-expect-error: we just want to show it in devtools
                     getters[key] = error
@@ -480,8 +476,8 @@ function addStoreToDevtools(app: DevtoolsApp, store: StoreGeneric) {
       })
 
       const { $dispose } = store
-      store.$dispose = () => {
-        $dispose()
+      store.$dispose = (options) => {
+        $dispose(options)
         api.notifyComponentUpdate()
         api.sendInspectorTree(INSPECTOR_ID)
         api.sendInspectorState(INSPECTOR_ID)
@@ -0,0 +1,179 @@
+import { computed, ComputedRef, effectScope, EffectScope } from 'vue-demi'
+import { _Method } from './types'
+
+/**
+ * Options of `memoizeGetter()`.
+ */
+export interface MemoizeGetterOptions {
+  /**
+   * Maximum number of cached results. The least recently used one is removed
+   * when the limit is reached. Defaults to 100.
+   */
+  max?: number
+
+  /**
+   * Computes the cache key from the arguments of the getter. Defaults to the
+   * argument itself when there is only one and to `JSON.stringify(args)`
+   * otherwise.
+   */
+  key?: (...args: any[]) => unknown
+}
+
+// memoizeGetter() 标记的 getter 以及它的配置
+const memoizedGetters = /*#__PURE__*/ new WeakMap<
+  _Method,
+  MemoizeGetterOptions
+>()
+
+// 被缓存的 getter 的缓存，供 devtools 显示
+const memoizedGetterCaches = /*#__PURE__*/ new WeakMap<
+  _Method,
+  Map<unknown, ComputedRef>
+>()
+
+// 正在执行 setup 函数的 store 的作用域
+let activeSetupScope: EffectScope | undefined
+
+/**
+ * Creates a getter that takes arguments and caches its result for each
+ * argument. A result is recomputed only when the reactive data it depends on
+ * changes.
+ *
+ * In option stores, wrap a getter returning a function. In setup stores, wrap
+ * the function taking the arguments directly.
+ *
+ * @example
+ * ```ts
+ * const useStore = defineStore('users', {
+ *   state: () => ({ users: [] as User[] }),
+ *   getters: {
+ *     getById: memoizeGetter((state) => (id: number) =>
+ *       state.users.find((user) => user.id === id)
+ *     ),
+ *   },
+ * })
+ *
+ * const useStore = defineStore('users', () => {
+ *   const users = ref<User[]>([])
+ *   const getById = memoizeGetter((id: number) =>
+ *     users.value.find((user) => user.id === id)
+ *   )
+ *   return { users, getById }
+ * })
+ * ```
+ *
+ * @param getter - getter to memoize
+ * @param options - size of the cache and how to compute the keys
+ * @returns the getter to use in the store
+ */
+export function memoizeGetter<F extends _Method>(
+  getter: F,
+  options: MemoizeGetterOptions = {}
+): F {
+  // setup store 中直接返回带有缓存的函数，option store 中只做标记，在创建 store 时处理
+  if (activeSetupScope) {
+    return createMemoizedGetter(getter, options, activeSetupScope) as F
+  }
+  memoizedGetters.set(getter, options)
+  return getter
+}
+
+/**
+ * 是否是 memoizeGetter() 创建的 getter
+ *
+ * @param fn - 要检查的函数
+ */
+export function isMemoizedGetter(fn: unknown): boolean {
+  return typeof fn === 'function' && memoizedGetters.has(fn as _Method)
+}
+
+/**
+ * 获取 memoizeGetter() 的配置
+ *
+ * @param fn - memoizeGetter() 创建的 getter
+ */
+export function getMemoizeGetterOptions(
+  fn: _Method
+): MemoizeGetterOptions | undefined {
+  return memoizedGetters.get(fn)
+}
+
+/**
+ * 设置正在执行 setup 函数的 store 的作用域
+ *
+ * @param scope - store 的作用域
+ * @returns 之前的作用域，setup 执行完之后需要恢复
+ */
+export function setActiveSetupScope(scope: EffectScope | undefined) {
+  const previousScope = activeSetupScope
+  activeSetupScope = scope
+  return previousScope
+}
+
+/**
+ * 创建按参数缓存结果的函数，每组参数对应一个在 store 作用域中创建的 computed
+ *
+ * @param fn - 计算结果的函数
+ * @param options - memoizeGetter() 的配置
+ * @param scope - store 的作用域
+ * @returns 带有缓存的函数
+ */
+export function createMemoizedGetter(
+  fn: _Method,
+  { max = 100, key }: MemoizeGetterOptions,
+  scope: EffectScope
+): _Method {
+  // Map 按照插入顺序遍历，最近使用的放在最后
+  const cache = new Map<unknown, ComputedRef>()
+  const scopes = new Map<unknown, EffectScope>()
+
+  const memoized = (...args: any[]) => {
+    const cacheKey = key
+      ? key(...args)
+      : args.length === 1
+      ? args[0]
+      : JSON.stringify(args)
+    let cached = cache.get(cacheKey)
+    if (cached) {
+      cache.delete(cacheKey)
+    } else {
+      // 每个 computed 有单独的作用域，移除缓存时停止它
+      const computedScope = scope.run(() => effectScope())!
+      cached = computedScope.run(() => computed(() => fn(...args)))!
+      scopes.set(cacheKey, computedScope)
+      if (cache.size >= max) {
+        const oldestKey = cache.keys().next().value
+        cache.delete(oldestKey)
+        scopes.get(oldestKey)!.stop()
+        scopes.delete(oldestKey)
+      }
+    }
+    cache.set(cacheKey, cached)
+    return cached.value
+  }
+
+  memoizedGetters.set(memoized, { max, key })
+  memoizedGetterCaches.set(memoized, cache)
+  return memoized
+}
+
+/**
+ * 获取 getter 缓存的结果，用于在 devtools 中显示
+ *
+ * @param fn - getter
+ * @returns 参数对应的结果，不是 memoizeGetter() 创建的 getter 时返回 undefined
+ */
+export function getMemoizedGetterCache(
+  fn: unknown
+): Record<string, unknown> | undefined {
+  const cache =
+    typeof fn === 'function' && memoizedGetterCaches.get(fn as _Method)
+  if (!cache) return
+  const entries: Record<string, unknown> = {}
+  cache.forEach((cached, cacheKey) => {
+    entries[
+      typeof cacheKey === 'string' ? cacheKey : JSON.stringify(cacheKey)
+    ] = cached.value
+  })
+  return entries
+}
@@ -1,6 +1,12 @@
 import { isRef, isReactive, isVue2, set } from 'vue-demi'
 import { Pinia } from './rootStore'
-import { isPlainObject, StoreDefinition, StoreGeneric, _Method } from './types'
+import {
+  isPlainObject,
+  KeyedStoreDefinition,
+  StoreDefinition,
+  StoreGeneric,
+  _Method,
+} from './types'
 
 /**
  * Checks if a function is a `StoreDefinition`.
@@ -12,6 +18,16 @@ export const isUseStore = (fn: any): fn is StoreDefinition => {
   return typeof fn === 'function' && typeof fn.$id === 'string'
 }
 
+/**
+ * Checks if a function is a `useStore` function of a keyed store.
+ *
+ * @param fn - object to test
+ * @returns true if `fn` is a keyed `useStore` function
+ */
+export const isKeyedUseStore = (fn: any): fn is KeyedStoreDefinition => {
+  return isUseStore(fn) && typeof (fn as any).keys === 'function'
+}
+
 /**
  * Mutates in place `newState` with `oldState` to _hot update_ it. It will
  * remove any key not existing in `newState` and recursively merge plain
@@ -90,7 +106,10 @@ export function acceptHMRUpdate(initialUseStore: StoreDefinition, hot: any) {
     for (const exportName in newModule) {
       const useStore = newModule[exportName]
       // console.log('checking for', exportName)
-      if (isUseStore(useStore) && pinia._s.has(useStore.$id)) {
+      if (
+        isUseStore(useStore) &&
+        (pinia._s.has(useStore.$id) || isKeyedUseStore(useStore))
+      ) {
         // console.log('Accepting update for', useStore.$id)
         const id = useStore.$id
 
@@ -102,6 +121,14 @@ export function acceptHMRUpdate(initialUseStore: StoreDefinition, hot: any) {
           return hot.invalidate()
         }
 
+        // update every instance of a keyed store
+        if (isKeyedUseStore(useStore)) {
+          useStore.keys(pinia).forEach((key) => {
+            useStore(key, pinia, pinia._s.get(`${id}:${key}`)!)
+          })
+          continue
+        }
+
         const existingStore: StoreGeneric = pinia._s.get(id)!
         if (!existingStore) {
           console.log(`[Pinia]: skipping hmr because store doesn't exist yet`)
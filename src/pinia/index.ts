@@ -1,7 +1,12 @@
 /**
  * @module pinia
  */
-export { setActivePinia, getActivePinia } from './rootStore'
+export {
+  setActivePinia,
+  getActivePinia,
+  setPiniaRequestContext,
+  runWithPinia,
+} from './rootStore'
 export { createPinia } from './createPinia'
 export type {
   Pinia,
@@ -9,9 +14,24 @@ export type {
   PiniaStorePlugin,
   PiniaPlugin,
   PiniaPluginContext,
+  PiniaOptions,
+  PiniaRequestContext,
+  PiniaErrorContext,
+  PiniaErrorHandler,
+  StateValidationContext,
+  StateValidationReporter,
+  HydrationMismatch,
+  HydrationMismatchContext,
+  HydrationMismatchReporter,
+  StoreLifecycleCallback,
 } from './rootStore'
 
-export { defineStore, skipHydrate } from './store'
+export { defineStore, skipHydrate, skipSerialize } from './store'
+export { defineAction, getActionSignal, ActionCancelledError } from './actions'
+export { memoizeGetter } from './getters'
+export type { MemoizeGetterOptions } from './getters'
+export type { SerializerRegistry, SerializableType } from './serializers'
+export { serializePiniaState, hydratePinia } from './ssr'
 export type { StoreActions, StoreGetters, StoreState } from './store'
 
 export type {
@@ -19,25 +39,38 @@ export type {
   Store,
   StoreGeneric,
   StoreDefinition,
+  KeyedStoreDefinition,
   _StoreWithGetters,
   _GettersTree,
   _ActionsTree,
   _Method,
   _StoreWithActions,
+  ActionOptions,
+  ActionConcurrency,
+  ActionRetryOptions,
+  _ActionContext,
   _StoreWithState,
   StoreProperties,
   StoreOnActionListener,
   _StoreOnActionListenerContext,
+  ActionTiming,
   StoreOnActionListenerContext,
   SubscriptionCallback,
   SubscriptionCallbackMutation,
   SubscriptionCallbackMutationDirect,
   SubscriptionCallbackMutationPatchFunction,
   SubscriptionCallbackMutationPatchObject,
+  SubscriptionCallbackMutationReset,
+  SubscriptionCallbackMutationReplaceState,
   _SubscriptionCallbackMutationBase,
+  StateChange,
   PiniaCustomProperties,
   PiniaCustomStateProperties,
   DefineStoreOptionsBase,
+  StoreHistoryOptions,
+  StoreDisposeOptions,
+  StoreAutoDisposeOptions,
+  StateValidator,
   DefineStoreOptions,
   DefineSetupStoreOptions,
   DefineStoreOptionsInPlugin,
@@ -16,7 +16,10 @@ import {
   PiniaCustomStateProperties,
   DefineStoreOptionsInPlugin,
   StoreGeneric,
+  SubscriptionCallbackMutation,
+  StoreDisposeOptions,
 } from './types'
+import { SerializerRegistry } from './serializers'
 
 /**
  * setActivePinia must be called to handle SSR at the top of functions like
@@ -26,18 +29,118 @@ export let activePinia: Pinia | undefined
 
 /**
  * Sets or unsets the active pinia. Used in SSR and internally when calling
- * actions and getters
+ * actions and getters. Ignored while a request context is set with
+ * `setPiniaRequestContext()`: use `runWithPinia()` instead.
  *
  * @param pinia - Pinia instance
  */
 export const setActivePinia = (pinia: Pinia | undefined) =>
-  (activePinia = pinia)
+  // 服务端模式下不修改全局的 activePinia，避免被其他请求使用
+  requestContext ? pinia : (activePinia = pinia)
+
+/**
+ * Storage keeping the pinia of the request being handled by the server across
+ * asynchronous operations. An `AsyncLocalStorage<Pinia>` from
+ * `node:async_hooks` can be used as is.
+ */
+export interface PiniaRequestContext {
+  /**
+   * Returns the pinia of the current request, if any.
+   */
+  getStore(): Pinia | undefined
+
+  /**
+   * Runs `fn` with `pinia` as the pinia of the current request.
+   */
+  run<R>(pinia: Pinia, fn: () => R): R
+}
+
+let requestContext: PiniaRequestContext | undefined
+// 通过 runWithPinia() 绑定到请求的 pinia
+const requestPinias = /*#__PURE__*/ new WeakSet<Pinia>()
+// 没有设置 requestContext 时，runWithPinia() 同步执行期间的 pinia
+let syncRequestPinia: Pinia | undefined
+
+/**
+ * Enables the server mode: `getActivePinia()` and `useStore()` use the pinia
+ * of the current request (set with `runWithPinia()`) instead of the last
+ * active one, which could belong to another request. The active pinia is no
+ * longer set, so stores used outside of a request must be given a pinia. In
+ * development, a warning is logged when a store is used with the pinia of a
+ * request outside of that request. Pass `undefined` to disable it.
+ *
+ * @example
+ * ```ts
+ * import { AsyncLocalStorage } from 'node:async_hooks'
+ *
+ * setPiniaRequestContext(new AsyncLocalStorage())
+ * ```
+ *
+ * @param context - storage of the pinia of the current request
+ */
+export function setPiniaRequestContext(
+  context: PiniaRequestContext | undefined
+) {
+  requestContext = context
+}
+
+/**
+ * Runs `fn` with `pinia` as the pinia of the current request. Without a
+ * request context set with `setPiniaRequestContext()`, `pinia` is only used
+ * during the synchronous execution of `fn`.
+ *
+ * @example
+ * ```ts
+ * server.get('*', (req, res) => {
+ *   const pinia = createPinia()
+ *   return runWithPinia(pinia, () => render(req, res, pinia))
+ * })
+ * ```
+ *
+ * @param pinia - pinia of the request
+ * @param fn - function handling the request
+ * @returns the value returned by `fn`
+ */
+export function runWithPinia<R>(pinia: Pinia, fn: () => R): R {
+  requestPinias.add(pinia)
+  if (requestContext) return requestContext.run(pinia, fn)
+  // useStore() 会修改 activePinia，执行完之后一并恢复
+  const previousPinia = syncRequestPinia
+  const previousActivePinia = activePinia
+  syncRequestPinia = pinia
+  try {
+    return fn()
+  } finally {
+    syncRequestPinia = previousPinia
+    activePinia = previousActivePinia
+  }
+}
+
+/**
+ * 获取当前请求的 pinia
+ *
+ * @returns 不在 runWithPinia() 中执行时返回 undefined
+ */
+export function getRequestPinia(): Pinia | undefined {
+  return requestContext ? requestContext.getStore() : syncRequestPinia
+}
+
+/**
+ * 是否是通过 runWithPinia() 绑定到请求的 pinia
+ *
+ * @param pinia - Pinia 实例
+ */
+export function isRequestPinia(pinia: Pinia): boolean {
+  return requestPinias.has(pinia)
+}
 
 /**
  * Get the currently active pinia if there is any.
  */
 export const getActivePinia = () =>
-  (getCurrentInstance() && inject(piniaSymbol)) || activePinia
+  (getCurrentInstance() && inject(piniaSymbol)) ||
+  getRequestPinia() ||
+  activePinia
 
 /**
  * Every application must own its own pinia to be able to create stores
@@ -57,6 +160,77 @@ export interface Pinia {
    */
   use(plugin: PiniaPlugin): Pinia
 
+  /**
+   * Calls `store.$batch()` on every existing store: each store notifies its
+   * subscriptions only once after `fn` runs. `fn` **must be synchronous**.
+   *
+   * @param fn - function that mutates the state of one or more stores
+   * @returns the value returned by `fn`
+   */
+  batch<R>(fn: () => R): R
+
+  /**
+   * Serializers used to convert the state to JSON and back in devtools and
+   * SSR helpers. Register serializers for the types of your state that JSON
+   * doesn't support.
+   */
+  serializers: SerializerRegistry
+
+  /**
+   * Adds a handler called with every error thrown by an action, an options
+   * store getter, a `$subscribe()`/`$onAction()` callback or an async setup
+   * function or `state()` of any store of this pinia. Errors are reported once even if they go through nested
+   * actions. Cancellations (`ActionCancelledError`) are not reported.
+   *
+   * @param handler - function called with the error and where it happened
+   * @returns function that removes the handler
+   */
+  onActionError(handler: PiniaErrorHandler): () => void
+
+  /**
+   * Returns the stores each store uses: stores retrieved with `useStore()`
+   * while the setup function, an options store getter or an action of
+   * another store runs. Stores that don't use any other store have an empty
+   * list.
+   *
+   * @returns ids of the used stores, by store id
+   */
+  getDependencyGraph(): Record<string, string[]>
+
+  /**
+   * Adds a callback called every time a store is created, after plugins are
+   * applied.
+   *
+   * @param callback - function called with the created store
+   * @returns function that removes the callback
+   */
+  onStoreCreated(callback: StoreLifecycleCallback): () => void
+
+  /**
+   * Adds a callback called every time a store is disposed with
+   * `store.$dispose()`.
+   *
+   * @param callback - function called with the disposed store
+   * @returns function that removes the callback
+   */
+  onStoreDisposed(callback: StoreLifecycleCallback): () => void
+
+  /**
+   * Adds a callback called every time a store is replaced by Hot Module
+   * Replacement. Only called in development.
+   *
+   * @param callback - function called with the updated store
+   * @returns function that removes the callback
+   */
+  onStoreHotUpdated(callback: StoreLifecycleCallback): () => void
+
+  /**
+   * Calls `store.$dispose()` on every existing store.
+   *
+   * @param options - options passed to `store.$dispose()`
+   */
+  disposeAll(options?: StoreDisposeOptions): void
+
   /**
    * Installed store plugins
    *
@@ -85,6 +259,58 @@ export interface Pinia {
    */
   _s: Map<string, StoreGeneric>
 
+  /**
+   * Handlers added with `onActionError()`.
+   *
+   * @internal
+   */
+  _eh: PiniaErrorHandler[]
+
+  /**
+   * Ids of the stores used by each store. @see {@link getDependencyGraph}.
+   *
+   * @internal
+   */
+  _d: Map<string, Set<string>>
+
+  /**
+   * Callbacks added with `onStoreCreated()`, `onStoreDisposed()` and
+   * `onStoreHotUpdated()`.
+   *
+   * @internal
+   */
+  _h: Record<'created' | 'disposed' | 'hotUpdated', StoreLifecycleCallback[]>
+
+  /**
+   * `strict` option passed to `createPinia()`.
+   *
+   * @internal
+   */
+  _strict?: PiniaOptions['strict']
+
+  /**
+   * `onValidationError` option passed to `createPinia()`.
+   *
+   * @internal
+   */
+  _vr?: StateValidationReporter
+
+  /**
+   * `onHydrationMismatch` option passed to `createPinia()`.
+   *
+   * @internal
+   */
+  _hr?: HydrationMismatchReporter
+
+  /**
+   * State of each store right after its creation, recorded in development. On
+   * the server it is serialized along with the state, on the client it holds
+   * the states received from the server to check hydration mismatches.
+   *
+   * @internal
+   */
+  _is: Record<string, StateTree>
+
   /**
    * Added by `createTestingPinia()` to bypass `useStore(pinia)`.
    *
@@ -93,6 +319,170 @@ export interface Pinia {
   _testing?: boolean
 }
 
+/**
+ * Options passed to `createPinia()`.
+ */
+export interface PiniaOptions {
+  /**
+   * Error handler added to the pinia. @see {@link Pinia.onActionError}.
+   */
+  onActionError?: PiniaErrorHandler
+
+  /**
+   * Reports mutations of the state of stores made outside of actions and
+   * `store.$patch()` (as well as `$reset()`, `$batch()` and other store
+   * methods). `true` logs an error with the stack trace of the mutation and
+   * `'warn'` logs a warning. The mutation is detected after it is applied, so
+   * it is reported but not prevented. Only checked in development. Note a
+   * mutation made while an async action of any store is pending is considered
+   * to be part of that action.
+   */
+  strict?: boolean | 'warn'
+
+  /**
+   * Called when the `validate` option of a store reports an invalid state.
+   * Defaults to logging the errors with `console.warn()`.
+   */
+  onValidationError?: StateValidationReporter
+
+  /**
+   * Called in development when the state a store gets from `state()` (or its
+   * setup function) on the client differs from the state the same store got
+   * when it was created on the server. Values changed later on the server
+   * (e.g. fetched data) are not reported. Only checked when the state is
+   * hydrated with `hydratePinia()` from the output of `serializePiniaState()`
+   * produced by a development build. Option stores with an async `state()`
+   * are not checked. Defaults to logging the differences with
+   * `console.warn()`.
+   */
+  onHydrationMismatch?: HydrationMismatchReporter
+}
+
+/**
+ * Context argument passed to the error handlers of a pinia.
+ */
+export interface PiniaErrorContext {
+  /**
+   * `id` of the store the error happened in.
+   */
+  storeId: string
+
+  /**
+   * What threw the error. `'setup'` is an async setup function or `state()`
+   * that rejected.
+   */
+  source: 'action' | 'getter' | 'subscription' | 'setup'
+
+  /**
+   * Name of the action or getter. `'$subscribe'` or `'$onAction'` for
+   * subscriptions. `'setup'` or `'state'` when the store is created and
+   * `'$reset'` when `store.$reset()` calls an async `state()`.
+   */
+  name: string
+
+  /**
+   * Arguments of the action or of the subscription callback. Empty for
+   * getters and setup.
+   */
+  args: any[]
+
+  /**
+   * Error thrown or the reason of the rejected promise.
+   */
+  error: unknown
+}
+
+/**
+ * Handler of the errors thrown inside the stores of a pinia.
+ */
+export type PiniaErrorHandler = (context: PiniaErrorContext) => void
+
+/**
+ * Context argument passed to the `onValidationError` option of `createPinia()`.
+ */
+export interface StateValidationContext {
+  /**
+   * `id` of the store with an invalid state.
+   */
+  storeId: string
+
+  /**
+   * Error messages returned by the `validate` option of the store.
+   */
+  errors: string[]
+
+  /**
+   * State that was validated.
+   */
+  state: StateTree
+
+  /**
+   * Whether the state was validated after it was hydrated from
+   * `pinia.state.value` or after a mutation.
+   */
+  trigger: 'hydration' | 'mutation'
+
+  /**
+   * Mutation that made the state invalid. `undefined` for hydration.
+   */
+  mutation?: SubscriptionCallbackMutation<StateTree>
+}
+
+/**
+ * Reporter of the validation errors of the stores of a pinia.
+ */
+export type StateValidationReporter = (context: StateValidationContext) => void
+
+/**
+ * Value of the state that differs between the server and the client.
+ */
+export interface HydrationMismatch {
+  /**
+   * Path of the value in the state of the store.
+   */
+  path: Array<string | number>
+
+  /**
+   * Value hydrated from the server. `undefined` if it only exists on the
+   * client.
+   */
+  serverValue: unknown
+
+  /**
+   * Value computed on the client. `undefined` if it only exists on the
+   * server.
+   */
+  clientValue: unknown
+}
+
+/**
+ * Context argument passed to the `onHydrationMismatch` option of
+ * `createPinia()`.
+ */
+export interface HydrationMismatchContext {
+  /**
+   * `id` of the hydrated store.
+   */
+  storeId: string
+
+  /**
+   * Values that differ between the server and the client.
+   */
+  mismatches: HydrationMismatch[]
+}
+
+/**
+ * Reporter of the hydration mismatches of the stores of a pinia.
+ */
+export type HydrationMismatchReporter = (
+  context: HydrationMismatchContext
+) => void
+
+/**
+ * Callback of the store lifecycle events of a pinia.
+ */
+export type StoreLifecycleCallback = (store: StoreGeneric) => void
+
 export const piniaSymbol = (
   __DEV__ ? Symbol('pinia') : /* istanbul ignore next */ Symbol()
 ) as InjectionKey<Pinia>
@@ -0,0 +1,160 @@
+/**
+ * Type handled by a serializer: a class or a function like `BigInt` whose
+ * values are instances once wrapped with `Object()`.
+ */
+export type SerializableType<T> =
+  | (abstract new (...args: any[]) => T)
+  | ((...args: any[]) => T)
+
+/**
+ * Registry of the serializers used to convert the state to JSON and back
+ * (SSR payload, devtools import and export). Values of registered types are
+ * stored as `{ __pinia_type: name, value: encoded }` objects.
+ */
+export interface SerializerRegistry {
+  /**
+   * Adds a serializer for the values of `type`. Serializers added last are
+   * checked first, allowing to override the built-in ones. `Date`, `Map`,
+   * `Set`, `BigInt` and typed arrays are supported out of the box.
+   *
+   * @example
+   * ```ts
+   * pinia.serializers.register(
+   *   Money,
+   *   (money) => money.cents,
+   *   (cents) => new Money(cents)
+   * )
+   * ```
+   *
+   * @param type - class (or function like `BigInt`) of the values
+   * @param encode - converts a value into something JSON can serialize, it can
+   * contain values of other registered types
+   * @param decode - converts the output of `encode` back into a value
+   * @param name - name stored in the JSON, defaults to `type.name`. Must be
+   * given if the code is minified
+   */
+  register<T, E>(
+    type: SerializableType<T>,
+    encode: (value: T) => E,
+    decode: (encoded: E) => T,
+    name?: string
+  ): SerializerRegistry
+
+  /**
+   * Converts a value to JSON, encoding the values of registered types.
+   *
+   * @param value - value to convert, usually `pinia.state.value`
+   */
+  stringify(value: unknown): string
+
+  /**
+   * Parses JSON created by `stringify()`, decoding the values of registered
+   * types.
+   *
+   * @param text - JSON to parse
+   */
+  parse(text: string): any
+}
+
+// 标记被编码的值的类型的属性名
+const TYPE_KEY = '__pinia_type'
+
+interface Serializer {
+  name: string
+  type: SerializableType<unknown>
+  encode: (value: any) => unknown
+  decode: (encoded: any) => unknown
+}
+
+// 内置支持的 typed array
+const typedArrays: Array<new (values: any[]) => ArrayLike<unknown>> = [
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+]
+if (typeof BigInt64Array !== 'undefined') {
+  typedArrays.push(BigInt64Array, BigUint64Array)
+}
+
+/**
+ * 创建序列化器的注册表，并注册内置的序列化器
+ *
+ * @returns 注册表
+ */
+export function createSerializerRegistry(): SerializerRegistry {
+  const serializers: Serializer[] = []
+
+  const registry: SerializerRegistry = {
+    register(type, encode, decode, name = type.name) {
+      serializers.unshift({ name, type, encode, decode })
+      return registry
+    },
+
+    stringify(value) {
+      return JSON.stringify(value, function (this: any, key, jsonValue) {
+        // Date 等类型的 toJSON() 在 replacer 之前执行，从 this 中读取原始值
+        const rawValue = this[key]
+        if (rawValue == null) return jsonValue
+        const serializer = serializers.find(
+          ({ type }) => Object(rawValue) instanceof type
+        )
+        return serializer
+          ? { [TYPE_KEY]: serializer.name, value: serializer.encode(rawValue) }
+          : jsonValue
+      })
+    },
+
+    parse(text) {
+      // reviver 从内向外执行，解码时内部的值已经被解码
+      return JSON.parse(text, (_key, value) => {
+        if (value && typeof value === 'object' && TYPE_KEY in value) {
+          const serializer = serializers.find(
+            ({ name }) => name === value[TYPE_KEY]
+          )
+          if (serializer) return serializer.decode(value.value)
+        }
+        return value
+      })
+    },
+  }
+
+  registry
+    .register(
+      Date,
+      // 无效的日期 NaN 会被序列化为 null
+      (date) => date.getTime(),
+      (time: number | null) => new Date(time === null ? NaN : time)
+    )
+    .register(
+      Map,
+      (map) => Array.from(map),
+      (entries: Array<[unknown, unknown]>) => new Map(entries)
+    )
+    .register(
+      Set,
+      (set) => Array.from(set),
+      (values: unknown[]) => new Set(values)
+    )
+  if (typeof BigInt !== 'undefined') {
+    registry.register(
+      BigInt,
+      (value) => value.toString(),
+      (value: string) => BigInt(value)
+    )
+  }
+  typedArrays.forEach((TypedArray) => {
+    registry.register(
+      TypedArray,
+      (array) => Array.from(array),
+      (values: any[]) => new TypedArray(values)
+    )
+  })
+
+  return registry
+}
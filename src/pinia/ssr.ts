@@ -0,0 +1,95 @@
+import { isVue2, set } from 'vue-demi'
+import { Pinia } from './rootStore'
+import { StateTree } from './types'
+
+// 开发环境下序列化的 state 中保存 store 创建时的 state 的属性，用于在客户端检查 hydration mismatch
+const initialStateKey = '__pinia_initial_state'
+
+// 在 <script> 中不安全的字符，转义后仍然是合法的 JSON 和 JavaScript
+const unsafeCharacters: Record<string, string> = {
+  '<': '\\u003C',
+  '>': '\\u003E',
+  '/': '\\u002F',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029',
+}
+
+/**
+ * Serializes the state of every store of a pinia so it can be inlined in the
+ * HTML sent by the server. Values of types registered in `pinia.serializers`
+ * are encoded and characters that could close the `<script>` tag or break
+ * the JavaScript (`<`, `>`, `/`, U+2028 and U+2029) are escaped. The result
+ * is valid JSON and a valid JavaScript expression. In development, it also
+ * contains the state each store had when it was created, used by
+ * `hydratePinia()` to check hydration mismatches.
+ *
+ * @example
+ * ```ts
+ * const html = `<script>window.__pinia = ${serializePiniaState(pinia)}</script>`
+ * ```
+ *
+ * @param pinia - pinia instance
+ * @returns the serialized state
+ */
+export function serializePiniaState(pinia: Pinia): string {
+  let state: Record<string, StateTree> = pinia.state.value
+  if (__DEV__) {
+    const initialStates: Record<string, StateTree> = {}
+    for (const id in state) {
+      if (id in pinia._is) initialStates[id] = pinia._is[id]
+    }
+    state = Object.assign({}, state, { [initialStateKey]: initialStates })
+  }
+  return pinia.serializers
+    .stringify(state)
+    .replace(/[<>/\u2028\u2029]/g, (char) => unsafeCharacters[char])
+}
+
+/**
+ * Restores the state serialized on the server with `serializePiniaState()`.
+ * Must be called before the stores are used: each store then picks up its
+ * state when it is created and option stores run their `hydrate` option.
+ * The state of stores that already exist is replaced.
+ *
+ * @example
+ * ```ts
+ * const pinia = createPinia()
+ * hydratePinia(pinia, window.__pinia)
+ * app.use(pinia)
+ * ```
+ *
+ * @param pinia - pinia instance
+ * @param payload - output of `serializePiniaState()`, as a string or as the
+ * object it evaluates to
+ */
+export function hydratePinia(
+  pinia: Pinia,
+  payload: string | Record<string, StateTree>
+) {
+  // 对象需要再经过一次 JSON 转换，才能解码其中被编码的值
+  const state: Record<string, StateTree> = pinia.serializers.parse(
+    typeof payload === 'string' ? payload : JSON.stringify(payload)
+  )
+  // 生产环境下不检查 hydration mismatch，服务端是生产环境时也没有这个属性
+  const initialStates = state[initialStateKey]
+  delete state[initialStateKey]
+  if (__DEV__ && initialStates) {
+    Object.assign(pinia._is, initialStates)
+  }
+
+  for (const id in state) {
+    const store = pinia._s.get(id)
+    if (store) {
+      if (__DEV__) {
+        console.warn(
+          `[🍍]: The store "${id}" was created before "hydratePinia()" was called. Its state is replaced but its "hydrate" option is not run.`
+        )
+      }
+      store.$state = state[id]
+    } else if (isVue2) {
+      set(pinia.state.value, id, state[id])
+    } else {
+      pinia.state.value[id] = state[id]
+    }
+  }
+}
@@ -5,7 +5,6 @@ import {
   getCurrentInstance,
   reactive,
   DebuggerEvent,
-  WatchOptions,
   UnwrapRef,
   markRaw,
   isRef,
@@ -22,6 +21,11 @@ import {
   del,
   nextTick,
   isVue2,
+  shallowReactive,
+  getCurrentScope,
+  onScopeDispose,
+  effect,
+  stop as stopEffect,
 } from 'vue-demi'
 import {
   StateTree,
@@ -45,15 +49,164 @@ import {
   _ExtractGettersFromSetupStore,
   _ExtractStateFromSetupStore,
   _StoreWithState,
+  ActionOptions,
+  StateChange,
+  ActionTiming,
+  StateValidator,
+  StoreDisposeOptions,
+  KeyedStoreDefinition,
+  StoreAutoDisposeOptions,
 } from './types'
-import { setActivePinia, piniaSymbol, Pinia, activePinia } from './rootStore'
+import {
+  setActivePinia,
+  getActivePinia,
+  piniaSymbol,
+  Pinia,
+  activePinia,
+  getRequestPinia,
+  isRequestPinia,
+  PiniaErrorContext,
+  StateValidationContext,
+  HydrationMismatch,
+} from './rootStore'
 import { IS_CLIENT, USE_DEVTOOLS } from './env'
 import { patchObject } from './hmr'
 import { addSubscription, triggerSubscriptions, noop } from './subscriptions'
+import {
+  ActionCancelledError,
+  getActionOptions,
+  setActionSignal,
+  normalizeRetryOptions,
+  getRetryDelay,
+} from './actions'
+import {
+  isMemoizedGetter,
+  createMemoizedGetter,
+  getMemoizeGetterOptions,
+  setActiveSetupScope,
+} from './getters'
 import Log from '../utils/log'
 
 type _ArrayType<AT> = AT extends Array<infer T> ? T : never
 
+// 每次调用 action 都有一个唯一的 id
+let actionInvocationId = 0
+
+/**
+ * 获取用于计算耗时的时间戳，优先使用更精确的 performance.now()
+ */
+const now = () =>
+  typeof performance !== 'undefined' ? performance.now() : Date.now()
+
+/**
+ * 将 validate 的返回值转换为错误信息数组
+ * @param result validate 的返回值
+ * @returns 错误信息，state 合法时为空数组
+ */
+function normalizeValidationResult(
+  result: ReturnType<StateValidator<StateTree>>
+): string[] {
+  if (result === false) return ['The state is invalid.']
+  if (typeof result === 'string') return [result]
+  return Array.isArray(result) ? result : []
+}
+
+// 所有 store 中正在执行的 action 数量，严格模式用来判断修改是否发生在 action 中
+let activeActionCount = 0
+
+// 开启 autoDispose 的 store 的使用者（作用域）以及等待销毁的定时器
+const storeConsumers = new WeakMap<
+  StoreGeneric,
+  { scopes: Set<EffectScope>; timer?: ReturnType<typeof setTimeout> }
+>()
+
+/**
+ * 记录使用 store 的作用域，最后一个作用域停止后销毁 store
+ * @param store store
+ * @param scope 使用 store 的作用域
+ * @param autoDispose autoDispose 配置
+ */
+function trackStoreConsumer(
+  store: StoreGeneric,
+  scope: EffectScope,
+  autoDispose: true | StoreAutoDisposeOptions
+) {
+  const consumers =
+    storeConsumers.get(store) ||
+    storeConsumers.set(store, { scopes: new Set() }).get(store)!
+  // 在等待销毁期间再次被使用时，取消销毁
+  clearTimeout(consumers.timer)
+  if (consumers.scopes.has(scope)) return
+  consumers.scopes.add(scope)
+
+  onScopeDispose(() => {
+    consumers.scopes.delete(scope)
+    if (consumers.scopes.size) return
+    const { delay = 0, clearState }: StoreAutoDisposeOptions =
+      autoDispose === true ? {} : autoDispose
+    const dispose = () => {
+      // 可能已经被手动销毁
+      if (!consumers.scopes.size && store._p._s.get(store.$id) === store) {
+        store.$dispose({ clearState })
+      }
+    }
+    if (delay > 0) {
+      consumers.timer = setTimeout(dispose, delay)
+    } else {
+      dispose()
+    }
+  })
+}
+
+// keyed store 的 key
+const storeKeys = new WeakMap<StoreGeneric, string | number>()
+
+// 正在执行 setup、getter 或者 action 的 store 的 id，用于记录 store 之间的依赖。
+// 热更新创建的 store 为 undefined，不记录依赖
+const runningStoreIds: Array<string | undefined> = []
+
+/**
+ * 执行 store 的 setup、getter 或者 action，期间使用的其他 store 会被记录为它的依赖
+ * @param id store 的 id
+ * @param fn 要执行的函数
+ * @returns fn 的返回值
+ */
+function runInStore<R>(id: string | undefined, fn: () => R): R {
+  runningStoreIds.push(id)
+  try {
+    return fn()
+  } finally {
+    runningStoreIds.pop()
+  }
+}
+
+// 每个 action、getter、订阅回调和 setup 开始执行时递增，用于判断错误是否来自嵌套的调用
+let errorScopeId = 0
+// 错误被报告时的 errorScopeId
+const reportedErrors = new WeakMap<object, number>()
+
+/**
+ * 将错误传给 pinia 的错误处理函数，取消 action 导致的错误不报告。
+ * 错误在 scopeId 对应的调用开始之后已经被报告过时，说明来自嵌套调用的 action、getter 或订阅回调，不再报告
+ * @param pinia Pinia 实例
+ * @param context 错误信息
+ * @param scopeId 抛出错误的 action、getter、订阅回调或 setup 开始执行时的 errorScopeId
+ */
+function reportError(
+  pinia: Pinia,
+  context: PiniaErrorContext,
+  scopeId: number
+) {
+  const { error } = context
+  if (error instanceof ActionCancelledError) return
+  if (typeof error === 'object' && error !== null) {
+    const reportedScopeId = reportedErrors.get(error)
+    if (reportedScopeId !== undefined && reportedScopeId >= scopeId) return
+    reportedErrors.set(error, errorScopeId)
+  }
+  triggerSubscriptions(pinia._eh, context)
+}
+
 /**
  * 合并 reactive object
  * @param target 目标
@@ -132,8 +285,666 @@ function shouldHydrate(obj: any) {
     : !isPlainObject(obj) || !obj.hasOwnProperty(skipHydrateSymbol)
 }
 
+const skipSerializeSymbol = __DEV__
+  ? Symbol('pinia:skipSerialize')
+  : /* istanbul ignore next */ Symbol()
+const skipSerializeMap = /*#__PURE__*/ new WeakMap<any, any>()
+
+/**
+ * Tells Pinia to keep a ref or an object in the state of the store without
+ * serializing it: it isn't enumerable in `pinia.state.value` so it is skipped
+ * by `JSON.stringify()` (SSR payload, devtools copy and save) and by state
+ * snapshots (`$undo()`, `$transaction()`, `$reset()` of setup stores). It is
+ * never hydrated and changes made to it are not reported by `$subscribe()`.
+ * Useful for sockets, file handles or large caches.
+ *
+ * @param obj - target ref or object
+ * @returns obj
+ */
+export function skipSerialize<T extends object>(obj: T): T {
+  return isVue2
+    ? /* istanbul ignore next */ skipSerializeMap.set(obj, 1) && obj
+    : Object.defineProperty(obj, skipSerializeSymbol, {})
+}
+
+/**
+ * 返回这个值是否应该被序列化
+ *
+ * @param obj - 需要验证的变量
+ * @returns 如果 obj 没有被 skipSerialize() 标记则返回 true
+ */
+export function shouldSerialize(obj: any) {
+  return isVue2
+    ? /* istanbul ignore next */ !skipSerializeMap.has(obj)
+    : !obj || typeof obj !== 'object' || !obj.hasOwnProperty(skipSerializeSymbol)
+}
+
+// options store 的 state() 中被 skipSerialize() 标记的属性，state() 是异步的时为 null
+const unserializableStateKeys = /*#__PURE__*/ new WeakMap<
+  object,
+  string[] | null
+>()
+
+/**
+ * 将 skipSerialize() 标记的属性设为不可枚举，JSON.stringify() 和 state 快照都会跳过它
+ *
+ * @param state - store 的 state
+ * @param key - 属性名
+ */
+function hideUnserializableState(state: StateTree, key: string) {
+  // 只修改 enumerable，保留 vue2 定义的 getter 和 setter
+  Object.defineProperty(toRaw(state), key, { enumerable: false })
+}
+
 const { assign } = Object
 
+/**
+ * 是否是 store 或者 pinia 实例。它们可以出现在 setup store 返回的对象中，但不是 state 的一部分
+ *
+ * @param value - 需要验证的值
+ */
+function isStoreOrPinia(value: any): boolean {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    // store 有 $id 和 _p，pinia 有 _s 和 _e
+    ((typeof value.$id === 'string' && !!value._p) ||
+      (value._s instanceof Map && !!value._e))
+  )
+}
+
+/**
+ * 深拷贝 state，用于保存 state 快照。
+ * ref 会被解包，plain object、数组、Map、Set、Date 会被复制，其他对象（如 class 实例）、store 和 pinia 保持引用。
+ * 循环引用的对象只拷贝一次，拷贝中保留相同的循环。
+ *
+ * @param value - 需要拷贝的值
+ * @param copies - 已经拷贝过的对象和它们的拷贝
+ * @returns 拷贝后的值
+ */
+function cloneState<T>(value: T, copies?: WeakMap<object, unknown>): T
+function cloneState(
+  value: any,
+  copies: WeakMap<object, unknown> = new WeakMap()
+): any {
+  value = toRaw(isRef(value) ? value.value : value)
+  if (!value || typeof value !== 'object' || isStoreOrPinia(value)) {
+    return value
+  }
+  if (copies.has(value)) {
+    return copies.get(value)
+  }
+  if (Array.isArray(value)) {
+    const array: unknown[] = []
+    copies.set(value, array)
+    value.forEach((item) => array.push(cloneState(item, copies)))
+    return array
+  }
+  if (value instanceof Map) {
+    const map = new Map()
+    copies.set(value, map)
+    value.forEach((item, key) => map.set(key, cloneState(item, copies)))
+    return map
+  }
+  if (value instanceof Set) {
+    const set = new Set()
+    copies.set(value, set)
+    value.forEach((item) => set.add(cloneState(item, copies)))
+    return set
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime())
+  }
+  if (isPlainObject(value)) {
+    const copy: StateTree = {}
+    copies.set(value, copy)
+    for (const key in value) {
+      if (value.hasOwnProperty(key)) copy[key] = cloneState(value[key], copies)
+    }
+    return copy
+  }
+  return value
+}
+
+/**
+ * 用 source 原地替换 reactive 对象 target 的内容，保留 target 的引用。
+ * 用于 setup store 中 `reactive()` 创建的 state，直接赋值会让 store 和 pinia.state 失去同步。
+ *
+ * @param target - reactive 对象
+ * @param source - 新的内容
+ */
+function replaceReactiveObject(target: any, source: any) {
+  if (Array.isArray(target) && Array.isArray(source)) {
+    target.splice(0, target.length, ...source)
+  } else if (target instanceof Map && source instanceof Map) {
+    target.clear()
+    source.forEach((value, key) => target.set(key, value))
+  } else if (target instanceof Set && source instanceof Set) {
+    target.clear()
+    source.forEach((value) => target.add(value))
+  } else {
+    for (const key in target) {
+      if (!(key in source)) del(target, key)
+    }
+    for (const key in source) {
+      set(target, key, source[key])
+    }
+  }
+}
+
+/**
+ * 比较两个 state 快照，返回具体的修改列表。
+ * plain object 会递归比较，数组用 diffArray() 比较，Map 和 Set 只要内容不同就作为一个整体记录。
+ *
+ * @param oldValue - 修改前的值
+ * @param newValue - 修改后的值
+ * @param path - 当前值在 state 中的路径
+ * @param changes - 收集修改的数组
+ * @param visited - 已经比较过的对象，避免循环引用时无限递归
+ * @returns 修改列表
+ */
+function diffState(
+  oldValue: unknown,
+  newValue: unknown,
+  path: Array<string | number> = [],
+  changes: StateChange[] = [],
+  visited: WeakSet<object> = new WeakSet()
+): StateChange[] {
+  // state 中的值可能是 reactive 对象（如 filter() 返回的数组中的元素），读取原始对象避免被其他 effect 收集为依赖
+  oldValue = toRaw(oldValue)
+  newValue = toRaw(newValue)
+  if (Object.is(oldValue, newValue)) return changes
+
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    if (visited.has(oldValue)) return changes
+    visited.add(oldValue)
+    for (const key in oldValue) {
+      if (oldValue.hasOwnProperty(key)) {
+        diffState(
+          oldValue[key],
+          newValue[key],
+          path.concat(key),
+          changes,
+          visited
+        )
+      }
+    }
+    for (const key in newValue) {
+      if (newValue.hasOwnProperty(key) && !oldValue.hasOwnProperty(key)) {
+        diffState(undefined, newValue[key], path.concat(key), changes, visited)
+      }
+    }
+  } else if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    if (visited.has(oldValue)) return changes
+    visited.add(oldValue)
+    diffArray(oldValue, newValue, path, changes, visited)
+  } else if (oldValue instanceof Date && newValue instanceof Date) {
+    if (oldValue.getTime() !== newValue.getTime()) {
+      changes.push({ path, oldValue, newValue })
+    }
+  } else if (
+    (oldValue instanceof Map && newValue instanceof Map) ||
+    (oldValue instanceof Set && newValue instanceof Set)
+  ) {
+    // 快照中的 Map 和 Set 是拷贝出来的，不能直接比较引用
+    if (
+      diffState(
+        Array.from(oldValue as Iterable<unknown>),
+        Array.from(newValue as Iterable<unknown>)
+      ).length
+    ) {
+      changes.push({ path, oldValue, newValue })
+    }
+  } else {
+    changes.push({ path, oldValue, newValue })
+  }
+
+  return changes
+}
+
+/**
+ * 比较两个数组。去掉首尾相同的元素之后：
+ * - 只有插入或者只有删除时，每个元素记录为一个修改，删除的元素使用修改前的下标
+ * - 元素被原地替换时和对象的属性一样递归比较
+ * - 其他情况（如 sort()、reverse() 或者同时插入和删除）把整个数组记录为一个修改，
+ *   不会把被移动的元素记录为其属性的修改
+ *
+ * @param oldValue - 修改前的数组
+ * @param newValue - 修改后的数组
+ * @param path - 数组在 state 中的路径
+ * @param changes - 收集修改的数组
+ * @param visited - 已经比较过的对象
+ */
+function diffArray(
+  oldValue: unknown[],
+  newValue: unknown[],
+  path: Array<string | number>,
+  changes: StateChange[],
+  visited: WeakSet<object>
+) {
+  let start = 0
+  let oldEnd = oldValue.length
+  let newEnd = newValue.length
+  while (
+    start < oldEnd &&
+    start < newEnd &&
+    isSameValue(oldValue[start], newValue[start])
+  ) {
+    start++
+  }
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    isSameValue(oldValue[oldEnd - 1], newValue[newEnd - 1])
+  ) {
+    oldEnd--
+    newEnd--
+  }
+
+  if (oldEnd === start) {
+    for (let i = start; i < newEnd; i++) {
+      changes.push({
+        path: path.concat(i),
+        oldValue: undefined,
+        newValue: newValue[i],
+      })
+    }
+  } else if (newEnd === start) {
+    for (let i = start; i < oldEnd; i++) {
+      changes.push({
+        path: path.concat(i),
+        oldValue: oldValue[i],
+        newValue: undefined,
+      })
+    }
+  } else if (
+    oldEnd - start === newEnd - start &&
+    !hasMovedItems(oldValue, newValue, start, oldEnd)
+  ) {
+    for (let i = start; i < oldEnd; i++) {
+      diffState(oldValue[i], newValue[i], path.concat(i), changes, visited)
+    }
+  } else {
+    changes.push({ path, oldValue, newValue })
+  }
+}
+
+/**
+ * 数组在 start 到 end 之间被修改的元素中，是否有元素被移动到了其他位置
+ */
+function hasMovedItems(
+  oldValue: unknown[],
+  newValue: unknown[],
+  start: number,
+  end: number
+): boolean {
+  const newItems = new Set<unknown>()
+  for (let i = start; i < end; i++) {
+    if (!isSameValue(oldValue[i], newValue[i])) newItems.add(toRaw(newValue[i]))
+  }
+  for (let i = start; i < end; i++) {
+    if (
+      !isSameValue(oldValue[i], newValue[i]) &&
+      newItems.has(toRaw(oldValue[i]))
+    ) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * 比较两个值，reactive 对象和它的原始对象是同一个值
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return Object.is(toRaw(a), toRaw(b))
+}
+
+/**
+ * 创建一个 effect，依赖变化时只调用 onDirty，不会重新执行 fn。调用返回的 run 重新执行 fn 并收集依赖
+ *
+ * @param fn - 读取需要监听的值
+ * @param onDirty - 依赖变化时调用
+ * @param onTrigger - 开发环境下依赖变化时调用
+ */
+function createDirtyEffect<T>(
+  fn: () => T,
+  onDirty: () => void,
+  onTrigger?: (event: DebuggerEvent) => void
+): { run: () => T; stop: () => void } {
+  /* istanbul ignore if */
+  if (isVue2) {
+    // vue2 没有 effect()，使用同步的 watcher，每次修改都会重新读取
+    return {
+      run: fn,
+      stop: watch(() => [fn()], onDirty, { flush: 'sync', onTrigger }),
+    }
+  }
+  const runner = effect(fn, { lazy: true, scheduler: onDirty, onTrigger })
+  return { run: runner, stop: () => stopEffect(runner) }
+}
+
+/**
+ * 状态中被监听的一个 plain object、数组、Map 或 Set
+ */
+interface TrackedObject {
+  // 所在的父对象和属性名。对象可以同时存在于多个位置，循环引用时也会包含自己的子对象
+  parents: Array<{ parent: TrackedObject; key: string | number }>
+  // 上次读取的属性，Map 和 Set 为空
+  entries: Map<string | number, unknown>
+  isArray: boolean
+  // 数组的修改在操作结束之后才计算
+  isDirty: boolean
+  run: () => Map<string | number, unknown>
+  stop: () => void
+}
+
+/**
+ * 监听 state 的修改并计算修改列表。每个 plain object 和数组都有一个只读取自身属性的 effect，
+ * 修改时只需要比较被修改的对象，不需要拷贝和比较整个 state。
+ * 对象的修改立即记录。数组的一次操作（如 splice()、sort()）会触发多次，所以只标记为待计算，
+ * 在 vue 的下一次 pre flush 中或者调用 flush() 时和上次的元素比较一次。记录其他修改之前会先计算待计算的数组，保持修改的顺序。
+ * Map 和 Set 的内容变化时作为一个整体记录。store 和 pinia 实例不会被监听。
+ *
+ * @param source - 返回 store 的 state
+ * @param onChanges - 有修改时调用
+ * @param onTrigger - 开发环境下每次修改时调用
+ * @returns 立即计算待计算的数组的函数
+ */
+function watchStateChanges(
+  source: () => StateTree,
+  onChanges: (changes: StateChange[]) => void,
+  onTrigger?: (event: DebuggerEvent) => void
+): () => void {
+  // 子对象的 effect 在修改时创建，需要手动放入 store 的作用域，store 销毁时一起停止
+  const scope = getCurrentScope()!
+  // 以原始对象为 key，被移动的对象（如 splice()、sort()）复用原来的 effect，只更新路径
+  const trackedObjects = new Map<object, TrackedObject>()
+  const dirtyArrays = new Set<TrackedObject>()
+  // 有待计算的数组时加一，在 vue 的 pre flush 中计算，异步的订阅者在同一次 flush 中收到修改
+  const flushTrigger = ref(0)
+  let isFlushScheduled = false
+  watch(flushTrigger, flush)
+
+  /**
+   * 读取对象自身的属性，读取的同时会被 effect 收集为依赖
+   * @param value - reactive 对象，为 undefined 时读取 state，skipHydrate 标记的属性不是真正的 state，跳过
+   * @returns 属性名和属性值
+   */
+  function readEntries(value?: object) {
+    const isRoot = !value
+    const target: any = isRoot ? source() : value
+    const entries = new Map<string | number, unknown>()
+    if (Array.isArray(target)) {
+      for (let i = 0; i < target.length; i++) {
+        entries.set(i, target[i])
+      }
+    } else if (target) {
+      const rawTarget = toRaw(target)
+      for (const key in target) {
+        if (
+          rawTarget.hasOwnProperty(key) &&
+          (!isRoot || shouldHydrate(rawTarget[key]))
+        ) {
+          entries.set(key, target[key])
+        }
+      }
+    }
+    return entries
+  }
+
+  const root = createTrackedObject()
+
+  /**
+   * 创建被监听的对象，不传 value 时为 state 本身
+   * @param value - reactive 对象
+   */
+  function createTrackedObject(value?: object): TrackedObject {
+    const tracked = {
+      parents: [],
+      entries: new Map(),
+      isArray: Array.isArray(value),
+      isDirty: false,
+    } as unknown as TrackedObject
+    const rawValue = toRaw(value)
+
+    if (rawValue instanceof Map || rawValue instanceof Set) {
+      trackedObjects.set(rawValue, tracked)
+      let snapshot: unknown = cloneState(rawValue)
+      tracked.stop = watch(
+        () => value,
+        () => {
+          flush()
+          const path = getPath(tracked)
+          const current = cloneState(rawValue)
+          const changes = path ? diffState(snapshot, current, path) : []
+          snapshot = current
+          emit(changes)
+        },
+        { deep: true, flush: 'sync', onTrigger }
+      )
+      return tracked
+    }
+
+    if (rawValue) trackedObjects.set(rawValue, tracked)
+    const { run, stop } = createDirtyEffect(
+      () => readEntries(value),
+      () => {
+        if (!tracked.isArray) {
+          update(tracked)
+        } else if (!tracked.isDirty) {
+          tracked.isDirty = true
+          dirtyArrays.add(tracked)
+          scheduleFlush()
+        }
+      },
+      onTrigger
+    )
+    tracked.run = run
+    tracked.stop = stop
+    tracked.entries = run()
+    tracked.entries.forEach((child, key) => link(tracked, key, child))
+    return tracked
+  }
+
+  /**
+   * 记录 child 所在的位置，child 是没有被监听的对象时开始监听
+   */
+  function link(parent: TrackedObject, key: string | number, child: unknown) {
+    const rawChild = toRaw(child)
+    if (
+      !(
+        isPlainObject(rawChild) ||
+        Array.isArray(rawChild) ||
+        rawChild instanceof Map ||
+        rawChild instanceof Set
+      ) ||
+      isStoreOrPinia(rawChild)
+    ) {
+      return
+    }
+    const tracked =
+      trackedObjects.get(rawChild) ||
+      scope.run(() => createTrackedObject(child as object))
+    // store 销毁之后作用域不再执行，返回 undefined
+    if (tracked) tracked.parents.push({ parent, key })
+  }
+
+  /**
+   * 删除 child 的一个位置，child 不再存在于 state 中时停止监听
+   */
+  function unlink(parent: TrackedObject, key: string | number, child: unknown) {
+    const rawChild = toRaw(child)
+    const tracked = trackedObjects.get(rawChild as object)
+    if (!tracked) return
+    const index = tracked.parents.findIndex(
+      (location) => location.parent === parent && location.key === key
+    )
+    if (index > -1) tracked.parents.splice(index, 1)
+    if (!tracked.parents.length) {
+      tracked.stop()
+      trackedObjects.delete(rawChild as object)
+      dirtyArrays.delete(tracked)
+      tracked.entries.forEach((value, key) => unlink(tracked, key, value))
+    }
+  }
+
+  /**
+   * 计算对象在 state 中的路径，对象不再能从 state 访问到时返回 undefined
+   */
+  function getPath(
+    tracked: TrackedObject,
+    visited = new Set<TrackedObject>()
+  ): Array<string | number> | undefined {
+    if (tracked === root) return []
+    visited.add(tracked)
+    for (let i = 0; i < tracked.parents.length; i++) {
+      const { parent, key } = tracked.parents[i]
+      const parentPath = !visited.has(parent) && getPath(parent, visited)
+      if (parentPath) return parentPath.concat(key)
+    }
+  }
+
+  /**
+   * 重新读取对象的属性，和上次的属性比较
+   */
+  function update(tracked: TrackedObject) {
+    // 先计算之前的数组操作，保持修改的顺序
+    if (!tracked.isArray) flush()
+    tracked.isDirty = false
+    const oldEntries = tracked.entries
+    const entries = (tracked.entries = tracked.run())
+
+    const changes: StateChange[] = []
+    const path = getPath(tracked)
+    if (path) {
+      if (tracked.isArray) {
+        diffArray(
+          Array.from(oldEntries.values()),
+          Array.from(entries.values()),
+          path,
+          changes,
+          new WeakSet()
+        )
+      } else {
+        oldEntries.forEach((value, key) => {
+          if (!entries.has(key) || !Object.is(value, entries.get(key))) {
+            diffState(value, entries.get(key), path.concat(key), changes)
+          }
+        })
+        entries.forEach((value, key) => {
+          if (!oldEntries.has(key)) {
+            diffState(undefined, value, path.concat(key), changes)
+          }
+        })
+      }
+    }
+
+    // 先记录新的位置再删除旧的位置，在同一个对象中移动的值复用原来的 effect
+    entries.forEach((value, key) => {
+      if (!Object.is(value, oldEntries.get(key))) link(tracked, key, value)
+    })
+    oldEntries.forEach((value, key) => {
+      if (!Object.is(value, entries.get(key))) unlink(tracked, key, value)
+    })
+
+    emit(changes)
+  }
+
+  /**
+   * 拷贝修改的值并通知，之后的修改不会影响已经记录的值
+   */
+  function emit(changes: StateChange[]) {
+    if (!changes.length) return
+    onChanges(
+      changes.map(({ path, oldValue, newValue }) => ({
+        path,
+        oldValue: cloneState(oldValue),
+        newValue: cloneState(newValue),
+      }))
+    )
+  }
+
+  function scheduleFlush() {
+    if (isFlushScheduled) return
+    isFlushScheduled = true
+    flushTrigger.value++
+  }
+
+  /**
+   * 计算所有待计算的数组
+   */
+  function flush() {
+    isFlushScheduled = false
+    dirtyArrays.forEach((tracked) => {
+      dirtyArrays.delete(tracked)
+      update(tracked)
+    })
+  }
+
+  // effect 和 watcher 随 store 的作用域停止，store 销毁之后调用 flush() 时不再计算
+  onScopeDispose(() => {
+    dirtyArrays.clear()
+    trackedObjects.clear()
+  })
+
+  return flush
+}
+
+/**
+ * 开发环境下比较服务端创建 store 时的 state 和客户端创建的 state，报告不一致的值。
+ * 服务端之后的修改（如请求的数据）不会被比较
+ *
+ * @param pinia - Pinia 实例
+ * @param storeId - store 的 id
+ * @param serverState - 服务端创建 store 时的 state
+ * @param clientState - 客户端 state() 或 setup 函数创建的 state
+ * @param isSkipped - 是否跳过 key 对应的值，skipHydrate 和 skipSerialize 标记的值不会被 hydrate
+ */
+function reportHydrationMismatches(
+  pinia: Pinia,
+  storeId: string,
+  serverState: StateTree,
+  clientState: StateTree,
+  isSkipped: (key: string) => boolean
+) {
+  const server: StateTree = {}
+  const client: StateTree = {}
+  for (const key in serverState) {
+    if (!isSkipped(key)) server[key] = cloneState(serverState[key])
+  }
+  for (const key in clientState) {
+    if (!isSkipped(key)) client[key] = cloneState(clientState[key])
+  }
+
+  const mismatches: HydrationMismatch[] = diffState(server, client).map(
+    ({ path, oldValue, newValue }) => ({
+      path,
+      serverValue: oldValue,
+      clientValue: newValue,
+    })
+  )
+  if (!mismatches.length) return
+
+  if (pinia._hr) {
+    pinia._hr({ storeId, mismatches })
+  } else {
+    const stringify = (value: unknown) =>
+      value === undefined ? 'undefined' : pinia.serializers.stringify(value)
+    console.warn(
+      `[🍍]: Hydration mismatch in store "${storeId}":\n` +
+        mismatches
+          .map(
+            ({ path, serverValue, clientValue }) =>
+              `- ${path.join('.')}: server ${stringify(
+                serverValue
+              )}, client ${stringify(clientValue)}`
+          )
+          .join('\n')
+    )
+  }
+}
+
 function isComputed<T>(value: ComputedRef<T> | unknown): value is ComputedRef<T>
 function isComputed(o: any): o is ComputedRef {
   return !!(isRef(o) && (o as any).effect)
@@ -170,22 +981,124 @@ function createOptionsStore<
    * @returns store
    */
   function setup() {
-    if (!initialState && (!__DEV__ || !hot)) {
-      /* istanbul ignore if */
-      if (isVue2) {
-        set(pinia.state.value, id, state ? state() : {})
+    // 异步的 state 先设置为空对象，resolve 之后再创建 store 的属性
+    // hydrate 时恢复没有被序列化的 state。已知没有缺少被标记的属性时不再调用 state()，
+    // 开发环境下有服务端创建 store 时的 state 时还需要用它检查 hydration mismatch。
+    // 异步的 state() 不能在创建 store 的属性之前恢复，已知是异步的时不再调用
+    const knownKeys = unserializableStateKeys.get(options)
+    const serverInitialState = __DEV__ ? pinia._is[id] : undefined
+    if (
+      initialState &&
+      state &&
+      (!__DEV__ || !hot) &&
+      knownKeys !== null &&
+      (serverInitialState ||
+        !knownKeys ||
+        knownKeys.some((key) => !(key in initialState)))
+    ) {
+      const freshState = callState()
+      if (freshState instanceof Promise) {
+        // 第一次调用时才知道 state() 是异步的，忽略它的结果，也不检查 hydration mismatch
+        freshState.catch(noop)
       } else {
-        pinia.state.value[id] = state ? state() : {}
+        if (__DEV__ && serverInitialState) {
+          reportHydrationMismatches(
+            pinia,
+            id,
+            serverInitialState,
+            freshState,
+            (key) =>
+              key in freshState &&
+              !(
+                shouldHydrate(freshState[key]) &&
+                shouldSerialize(freshState[key])
+              )
+          )
+        }
+        for (const key in freshState) {
+          if (!(key in initialState) && !shouldSerialize(freshState[key])) {
+            set(initialState, key, freshState[key])
+          }
+        }
+      }
+    }
+
+    if (!initialState && (!__DEV__ || !hot)) {
+      const newState = callState()
+      setState(newState instanceof Promise ? {} : newState)
+      if (newState instanceof Promise) {
+        return newState.then((resolvedState) => {
+          setState(resolvedState)
+          return createStoreProperties(toRefs(pinia.state.value[id]))
+        })
       }
     }
 
     // 避免在 pinia.state.value 中创建 state
-    const localState =
-      __DEV__ && hot
-        ? // 使用 ref() 解包状态中的引用
-          toRefs(ref(state ? state() : {}).value)
-        : toRefs(pinia.state.value[id])
+    if (__DEV__ && hot) {
+      const hotState = state ? state() : {}
+      // 使用 ref() 解包状态中的引用
+      return hotState instanceof Promise
+        ? hotState.then((resolvedState) =>
+            createStoreProperties(toRefs(ref(resolvedState).value))
+          )
+        : createStoreProperties(toRefs(ref(hotState).value))
+    }
+
+    return createStoreProperties(toRefs(pinia.state.value[id]))
+  }
+
+  /**
+   * 调用 state()，并记录其中被 skipSerialize() 标记的属性
+   * @returns state() 的返回值
+   */
+  function callState(): StateTree | Promise<StateTree> {
+    const newState: StateTree | Promise<StateTree> = state ? state() : {}
+    unserializableStateKeys.set(
+      options,
+      newState instanceof Promise
+        ? null
+        : Object.keys(newState).filter((key) => !shouldSerialize(newState[key]))
+    )
+    return newState
+  }
 
+  /**
+   * 设置 pinia 中的 state
+   * @param newState state
+   */
+  function setState(newState: StateTree) {
+    /* istanbul ignore if */
+    if (isVue2) {
+      set(pinia.state.value, id, newState)
+    } else {
+      pinia.state.value[id] = newState
+    }
+  }
+
+  /**
+   * 合并 state、actions 和 getters，getters 转为 computed
+   * @param localState state 中每个属性的 ref
+   * @returns setup 函数的返回值
+   */
+  function createStoreProperties(localState: Record<string, Ref>) {
+    if (!(__DEV__ && hot)) {
+      const $state = pinia.state.value[id]
+      for (const key in localState) {
+        if (!shouldSerialize(toRaw($state)[key])) {
+          hideUnserializableState($state, key)
+        }
+      }
+      // 重新创建的 store 复用 state 时，已经隐藏的属性不会被 toRefs() 遍历到
+      const unserializableKeys = unserializableStateKeys.get(options)
+      if (unserializableKeys) {
+        unserializableKeys.forEach((key) => {
+          if (!(key in localState) && key in toRaw($state)) {
+            localState[key] = toRef($state, key)
+          }
+        })
+      }
+    }
     return assign(
       localState,
       actions,
@@ -197,6 +1110,39 @@ function createOptionsStore<
           )
         }
 
+        // memoizeGetter() 标记的 getter 按参数缓存结果
+        if (isMemoizedGetter(getters![name])) {
+          computedGetters[name] = createMemoizedGetter(
+            (...args: any[]) => {
+              setActivePinia(pinia)
+              const store = pinia._s.get(id)!
+              const scopeId = ++errorScopeId
+              try {
+                return runInStore(hot ? undefined : id, () =>
+                  // @ts-expect-error
+                  getters![name].call(store, store)(...args)
+                )
+              } catch (error) {
+                reportError(
+                  pinia,
+                  {
+                    storeId: id,
+                    source: 'getter',
+                    name,
+                    args,
+                    error,
+                  },
+                  scopeId
+                )
+                throw error
+              }
+            },
+            getMemoizeGetterOptions(getters![name])!,
+            getCurrentScope()!
+          )
+          return computedGetters
+        }
+
         // 把 getter 转为 computed
         computedGetters[name] = markRaw(
           computed(() => {
@@ -208,14 +1154,32 @@ function createOptionsStore<
             /* istanbul ignore next */
             if (isVue2 && !store._r) return
 
-            // @ts-expect-error
-            // return getters![name].call(context, context)
-            // TODO: avoid reading the getter while assigning with a global variable
-            return getters![name].call(store, store)
+            const scopeId = ++errorScopeId
+            try {
+              return runInStore(hot ? undefined : id, () =>
+                // @ts-expect-error
+                // return getters![name].call(context, context)
+                // TODO: avoid reading the getter while assigning with a global variable
+                getters![name].call(store, store)
+              )
+            } catch (error) {
+              reportError(
+                pinia,
+                {
+                  storeId: id,
+                  source: 'getter',
+                  name,
+                  args: [],
+                  error,
+                },
+                scopeId
+              )
+              throw error
+            }
           })
         )
         return computedGetters
-      }, {} as Record<string, ComputedRef>)
+      }, {} as Record<string, ComputedRef | _Method>)
     )
   }
 
@@ -242,7 +1206,7 @@ function createSetupStore<
   A extends _ActionsTree
 >(
   $id: Id,
-  setup: () => SS,
+  setup: () => SS | Promise<SS>,
   options:
     | DefineSetupStoreOptions<Id, S, G, A>
     | DefineStoreOptions<Id, S, G, A> = {},
@@ -271,16 +1235,12 @@ function createSetupStore<
     throw new Error('Pinia destroyed')
   }
 
-  // $subscribe 的订阅选项
-  const $subscribeOptions: WatchOptions = {
-    deep: true,
-    // flush: 'post',
-  }
+  // 记录 state 修改的 effect 被触发时调用，保存 debugger 事件
+  let onStateTrigger: ((event: DebuggerEvent) => void) | undefined
   // 如果不是 vue2，对 vue3 做特殊处理
   /* istanbul ignore else */
   if (__DEV__ && !isVue2) {
-    // 订阅选项，当触发的时候调用
-    $subscribeOptions.onTrigger = (event) => {
+    onStateTrigger = (event) => {
       // 如果正在监听，则将此事件赋值给 debug 事件（数组）
       /* istanbul ignore else */
       if (isListening) {
@@ -308,7 +1268,17 @@ function createSetupStore<
   let subscriptions: SubscriptionCallback<S>[] = markRaw([])                    // 所有订阅回调
   let actionSubscriptions: StoreOnActionListener<Id, S, G, A>[] = markRaw([])   // action 订阅
   let debuggerEvents: DebuggerEvent[] | DebuggerEvent                                 // debug 选项
+  let patchChanges: StateChange[] = []                                                // $patch 和 $batch 中的修改
+  let changeListeners: Array<(changes: StateChange[]) => void> = markRaw([])          // 每个订阅收集直接修改的回调
   const initialState = pinia.state.value[$id] as UnwrapRef<S> | undefined             // 初始化状态
+  let setupStore = {} as SS                                                           // setup 函数的返回值
+  const initialized = ref(false)                                                      // setup 是否执行完成，异步的 setup 在 resolve 之后完成
+  const initializedCallbacks: Array<() => void> = []                                  // 初始化完成之后执行的回调
+  // 开发环境下服务端创建 store 时的 state，用于检查和 setup 函数创建的 state 是否一致
+  const serverInitialState =
+    __DEV__ && !isOptionsStore && initialState && !hot
+      ? pinia._is[$id]
+      : undefined
 
   // 如果已设置 optionStore，则不设置 option stores
   // by the setup
@@ -346,37 +1316,76 @@ function createSetupStore<
       | ((state: UnwrapRef<S>) => void)
   ): void {
     Log('$patch', partialStateOrMutator);
-    // 订阅收集器，保存收集到的订阅者
-    let subscriptionMutation: SubscriptionCallbackMutation<S>
-    isListening = isSyncListening = false
-    // 重置 debugger 事件，因为 patches 是同步的
-    /* istanbul ignore else */
-    if (__DEV__) {
-      debuggerEvents = []
-    }
     // 对两种传参方式进行兼容
     // 如果参数是函数
     if (typeof partialStateOrMutator === 'function') {
       // 如果是函数，直接调用，并把 state 传过去
-      partialStateOrMutator(pinia.state.value[$id] as UnwrapRef<S>)
-      // 收集订阅，分别保存类型、id、事件
-      subscriptionMutation = {
-        type: MutationType.patchFunction,
-        storeId: $id,
-        events: debuggerEvents as DebuggerEvent[],
-      }
+      applyMutation(
+        () => partialStateOrMutator(pinia.state.value[$id] as UnwrapRef<S>),
+        // 收集订阅，分别保存类型、id、事件
+        () => ({
+          type: MutationType.patchFunction,
+          storeId: $id,
+          events: debuggerEvents as DebuggerEvent[],
+          changes: patchChanges,
+        })
+      )
     } else {
       // 如果传来的是 object
       // merge 参数对象到当前 store 的 state
-      mergeReactiveObjects(pinia.state.value[$id], partialStateOrMutator)
-      subscriptionMutation = {
-        type: MutationType.patchObject,
-        payload: partialStateOrMutator,
-        storeId: $id,
-        events: debuggerEvents as DebuggerEvent[],
+      applyMutation(
+        () =>
+          mergeReactiveObjects(pinia.state.value[$id], partialStateOrMutator),
+        () => ({
+          type: MutationType.patchObject,
+          payload: partialStateOrMutator,
+          storeId: $id,
+          events: debuggerEvents as DebuggerEvent[],
+          changes: patchChanges,
+        })
+      )
+    }
+  }
+
+  /**
+   * 暂停监听并执行 mutate 修改 state，然后手动通知订阅者。$patch、$reset 和 $state 都通过它修改 state
+   *
+   * @param mutate - 修改 state 的函数
+   * @param createMutation - 在 mutate 之后调用，创建传给订阅者的 mutation
+   */
+  function applyMutation(
+    mutate: () => void,
+    createMutation: () => SubscriptionCallbackMutation<S>
+  ) {
+    // batch 中的修改在 batch 结束时统一通知，监听已经暂停，debugger 事件也要保留
+    const isBatching = batchDepth > 0
+    if (!isBatching) {
+      // 之前的直接修改不属于这次 mutation
+      flushChanges()
+      isListening = isSyncListening = false
+      patchChanges = []
+      // 重置 debugger 事件，因为 patches 是同步的
+      /* istanbul ignore else */
+      if (__DEV__) {
+        debuggerEvents = []
       }
     }
-    // 
+    mutate()
+    if (isBatching) return
+    flushChanges()
+    resumeListening()
+    // 在上方逻辑中，我们将 isListening isSyncListening 重置为 false，不会触发 $subscribe 中的 callback，所以需要手动进行订阅发布
+    triggerSubscriptions(
+      subscriptions,
+      createMutation(),
+      pinia.state.value[$id] as UnwrapRef<S>
+    )
+  }
+
+  /**
+   * 重新开启监听。异步的 watcher 会在 nextTick 之前触发，所以 isListening 在 nextTick 之后才开启
+   */
+  function resumeListening() {
     const myListenerId = (activeListener = Symbol())
     nextTick().then(() => {
       if (activeListener === myListenerId) {
@@ -384,51 +1393,354 @@ function createSetupStore<
       }
     })
     isSyncListening = true
-    // 在上方逻辑中，我们将 isListening isSyncListening 重置为 false，不会触发 $subscribe 中的 callback，所以需要手动进行订阅发布
-    triggerSubscriptions(
-      subscriptions,
-      subscriptionMutation,
-      pinia.state.value[$id] as UnwrapRef<S>
-    )
   }
 
+  // 嵌套的 $batch 层数
+  let batchDepth = 0
+
+  /**
+   * 执行 fn 期间暂停所有订阅，结束后只通知一次，fn 中的所有 debugger 事件合并到这次通知中。
+   * fn 必须是同步的。
+   *
+   * @param fn - 修改 state 的函数
+   * @returns fn 的返回值
+   */
+  function $batch<R>(fn: () => R): R {
+    if (batchDepth++ === 0) {
+      flushChanges()
+      isListening = isSyncListening = false
+      // 让之前 $patch 中还未执行的 nextTick 不再开启监听
+      activeListener = undefined
+      patchChanges = []
+      /* istanbul ignore else */
+      if (__DEV__) {
+        debuggerEvents = []
+      }
+    }
+
+    try {
+      return fn()
+    } finally {
+      if (--batchDepth === 0) {
+        flushChanges()
+        resumeListening()
+        // 只有订阅者需要通知，它们开启了修改的记录，没有修改时不通知
+        if (patchChanges.length) {
+          triggerSubscriptions(
+            subscriptions,
+            {
+              type: MutationType.patchFunction,
+              storeId: $id,
+              events: debuggerEvents as DebuggerEvent[],
+              changes: patchChanges,
+            },
+            pinia.state.value[$id] as UnwrapRef<S>
+          )
+        }
+      }
+    }
+  }
+
+  // setup store 创建时 state 的深拷贝，用于 $reset。开发环境下还用于检查 hydration mismatch
+  const setupInitialState: StateTree = {}
+  const needsInitialState =
+    !isOptionsStore &&
+    (!(options as DefineSetupStoreOptions<Id, S, G, A>).reset ||
+      (__DEV__ && !!serverInitialState))
+
   /**
    * $reset
-   * 只有 选项式 构建的才可以使用此方法，
-   * 因为 state: () => ({count: 1}) 是一个函数，只要重新调用就可以获取原始值，
-   * 而 组合式 构建的话 state 以 ref() 的形式实现，无法获取原始值。
+   * 选项式 构建的 store 重新调用 state: () => ({count: 1}) 获取原始值，
+   * 组合式 构建的 store 使用 options 中的 reset 函数，或者创建时捕获的 state 快照。
    */
   const $reset = isOptionsStore
-    ? function $reset(this: _StoreWithState<Id, S, G, A>) {
+    ? function $reset() {
         const { state } = options as DefineStoreOptions<Id, S, G, A>
-        // 取出 options 中的 state 函数重新执行，以获取到原始 state
+        // 取出 options 中的 state 函数重新执行，以获取到原始 state，并分发订阅
         const newState = state ? state() : {}
-        // 使用 $patch 更新 state，并分发订阅
-        this.$patch(($state) => {
-          assign($state, newState)
+        // 异步的 state 在 resolve 之后替换，reject 时报告给 pinia 的错误处理函数
+        if (newState instanceof Promise) {
+          const scopeId = ++errorScopeId
+          newState.then(
+            (resolvedState) => replaceState(resolvedState, MutationType.reset),
+            (error) =>
+              reportError(
+                pinia,
+                {
+                  storeId: $id,
+                  source: 'setup',
+                  name: '$reset',
+                  args: [],
+                  error,
+                },
+                scopeId
+              )
+          )
+        } else {
+          replaceState(newState, MutationType.reset)
+        }
+      }
+    : function $reset() {
+        const { reset } = options as DefineSetupStoreOptions<Id, S, G, A>
+        // 每次都拷贝一份，避免快照被修改
+        replaceState(
+          reset ? reset() : cloneState(setupInitialState),
+          MutationType.reset
+        )
+      }
+
+  /**
+   * 获取当前 state 的快照，skipHydrate 标记的对象不是真正的 state，跳过
+   * @returns state 的深拷贝
+   */
+  function snapshotState(): StateTree {
+    const rawState = toRaw(pinia.state.value[$id])
+    const snapshot: StateTree = {}
+    for (const key in rawState) {
+      if (shouldHydrate(rawState[key]) && !isStoreOrPinia(rawState[key])) {
+        snapshot[key] = cloneState(rawState[key])
+      }
+    }
+    return snapshot
+  }
+
+  /**
+   * 将 newState 中的属性替换到当前 state 中，订阅者和 devtools 都能收到这次修改
+   * @param newState 新的 state
+   * @param type mutation 的类型，默认为 replaceState
+   */
+  function replaceState(
+    newState: StateTree,
+    type:
+      | MutationType.reset
+      | MutationType.replaceState = MutationType.replaceState
+  ) {
+    applyMutation(
+      () => {
+        const $state = pinia.state.value[$id]
+        for (const key in newState) {
+          const prop = setupStore[key]
+          // setup store 中 reactive() 创建的 state 需要原地替换，ref 直接赋值即可
+          if (!isOptionsStore && !isRef(prop) && isReactive(prop)) {
+            replaceReactiveObject(prop, newState[key])
+          } else {
+            $state[key] = newState[key]
+          }
+        }
+      },
+      () => ({
+        type,
+        payload: newState as _DeepPartial<UnwrapRef<S>>,
+        storeId: $id,
+        events: debuggerEvents as DebuggerEvent[],
+        changes: patchChanges,
+      })
+    )
+  }
+
+  // 撤销/重做 的历史记录
+  const historyOptions = options.history
+    ? assign({ maxDepth: 100 }, options.history === true ? {} : options.history)
+    : undefined
+  const undoStack = shallowReactive<StateTree[]>([])
+  const redoStack = shallowReactive<StateTree[]>([])
+  // 当前 state 的快照，撤销时放入 redoStack
+  let historyState: StateTree
+  // 正在执行的 action 数量，action 中的修改合并为一条历史记录
+  let runningActions = 0
+  let hasPendingHistory = false
+  let isTimeTraveling = false
+
+  /**
+   * 将修改前的快照存入历史记录，state 没有变化时（如被回滚的事务）不记录
+   */
+  function commitHistory() {
+    hasPendingHistory = false
+    const snapshot = snapshotState()
+    if (!diffState(historyState, snapshot).length) return
+    undoStack.push(historyState)
+    if (undoStack.length > historyOptions!.maxDepth) {
+      undoStack.shift()
+    }
+    historyState = snapshot
+    // 新的修改会让 redo 失效
+    redoStack.splice(0)
+  }
+
+  /**
+   * 切换到历史记录中的某个快照
+   * @param from 取出快照的栈
+   * @param to 存放当前快照的栈
+   */
+  function travelHistory(from: StateTree[], to: StateTree[]) {
+    // 先提交还没有计算的数组修改
+    flushChanges()
+    if (!from.length) return
+    to.push(historyState)
+    historyState = from.pop()!
+    isTimeTraveling = true
+    try {
+      replaceState(cloneState(historyState))
+    } finally {
+      isTimeTraveling = false
+    }
+  }
+
+  /**
+   * action 结束时调用，最外层的 action 结束后提交合并的历史记录
+   */
+  function onActionSettled() {
+    // action 中的数组修改在 action 结束之前计算，合并到同一条历史记录中
+    flushChanges()
+    activeActionCount--
+    if (--runningActions === 0 && hasPendingHistory) {
+      commitHistory()
+    }
+  }
+
+  const $undo = historyOptions
+    ? () => travelHistory(undoStack, redoStack)
+    : /* istanbul ignore next */
+    __DEV__
+    ? () => {
+        throw new Error(
+          `🍍: Store "${$id}" does not enable the "history" option and does not implement $undo().`
+        )
+      }
+    : noop
+
+  const $redo = historyOptions
+    ? () => travelHistory(redoStack, undoStack)
+    : /* istanbul ignore next */
+    __DEV__
+    ? () => {
+        throw new Error(
+          `🍍: Store "${$id}" does not enable the "history" option and does not implement $redo().`
+        )
+      }
+    : noop
+
+  let flushTrackedChanges: (() => void) | undefined
+
+  /**
+   * 开始记录 state 的修改。直接修改分发给每个订阅，$patch 和 $batch 中的修改记录到 patchChanges。
+   * 只有存在订阅时才需要，在第一次调用 $subscribe 时开启。
+   */
+  function trackChanges() {
+    if (flushTrackedChanges) return
+    flushTrackedChanges = scope.run(() =>
+      watchStateChanges(
+        () => pinia.state.value[$id],
+        (changes) => {
+          if (isSyncListening) {
+            triggerSubscriptions(changeListeners, changes)
+          } else {
+            patchChanges.push(...changes)
+          }
+        },
+        onStateTrigger
+      )
+    )
+  }
+
+  /**
+   * 立即计算还没有计算的数组修改，暂停或者恢复监听之前调用，让修改记录到正确的通知中
+   */
+  function flushChanges() {
+    if (flushTrackedChanges) flushTrackedChanges()
+  }
+
+  /**
+   * $dispose
+   * 停止 store 的相关作用域，并从 store 注册表中删除它。 
+   * 插件可以覆盖此方法来清理已添加的任何副作用函数。 例如， devtools 插件停止显示来自 devtools 的已停止的 store。
+   */
+  function $dispose({ clearState }: StoreDisposeOptions = {}) {
+    // 已经被销毁或者被新的 store 替换时不再通知
+    const isRegistered = pinia._s.get($id) === store
+    // 通知还没有计算的数组修改
+    flushChanges()
+    $cancel()
+    scope.stop()
+    subscriptions = []
+    actionSubscriptions = []
+    changeListeners = []
+    if (isRegistered) {
+      pinia._s.delete($id)
+      pinia._d.delete($id)
+      // 删除 state，再次创建 store 时不会复用，SSR 时也不会被序列化
+      if (clearState) {
+        /* istanbul ignore if */
+        if (isVue2) {
+          del(pinia.state.value, $id)
+        } else {
+          delete pinia.state.value[$id]
+        }
+      }
+      triggerSubscriptions(pinia._h.disposed, store)
+    }
+  }
+
+  /**
+   * 在事务中执行 fn，fn 抛出错误或者返回的 promise 被 reject 时，将 state 恢复到执行前的快照
+   *
+   * @param fn - 需要执行的函数
+   * @returns fn 的返回值
+   */
+  function $transaction<R>(fn: () => R): R {
+    const snapshot = snapshotState()
+    let ret: R
+    try {
+      ret = fn()
+    } catch (error) {
+      replaceState(snapshot)
+      throw error
+    }
+
+    if (ret instanceof Promise) {
+      return ret.catch((error) => {
+        replaceState(snapshot)
+        return Promise.reject(error)
+      }) as R
+    }
+
+    return ret
+  }
+
+  // 正在执行的 action 的 AbortController，key 为 action 的名字
+  const runningControllers = new Map<string, Set<AbortController>>()
+
+  /**
+   * 取消正在执行的 action，不传 actionName 时取消所有 action
+   *
+   * @param actionName - action 的名字
+   */
+  function $cancel(actionName?: string) {
+    runningControllers.forEach((controllers, name) => {
+      if (actionName == null || actionName === name) {
+        controllers.forEach((controller) => {
+          controller.abort(new ActionCancelledError($id, name))
         })
+        controllers.clear()
       }
-    : /* istanbul ignore next */
-    __DEV__
-    ? () => {
-        // 如果是组合式语法构建的话，抛出错误，因为 ref() 不能获取到原始值
-        throw new Error(
-          `🍍: Store "${$id}" is built using the setup syntax and does not implement $reset().`
-        )
-      }
-    // noop 是个空函数，生产环境不抛出错误
-    : noop
+    })
+  }
 
   /**
-   * $dispose
-   * 停止 store 的相关作用域，并从 store 注册表中删除它。 
-   * 插件可以覆盖此方法来清理已添加的任何副作用函数。 例如， devtools 插件停止显示来自 devtools 的已停止的 store。
+   * 获取 action 的配置，defineAction() 设置的配置优先于 options store 的 actionOptions
+   *
+   * @param name - action 的名字
+   * @param action - 原始的 action
+   * @returns action 的配置
    */
-  function $dispose() {
-    scope.stop()
-    subscriptions = []
-    actionSubscriptions = []
-    pinia._s.delete($id)
+  function resolveActionOptions(name: string, action: _Method): ActionOptions {
+    const actionOptions = (options as DefineStoreOptions<Id, S, G, A>)
+      .actionOptions as Record<string, ActionOptions> | undefined
+    return (
+      getActionOptions(action) ||
+      (isOptionsStore && actionOptions && actionOptions[name]) ||
+      {}
+    )
   }
 
   /**
@@ -436,56 +1748,304 @@ function createSetupStore<
    *
    * @param name - action 的名字
    * @param action - action to wrap
+   * @param actionOptions - action 的配置
    * @returns 包装完的 action
    */
-  function wrapAction(name: string, action: _Method) {
+  function wrapAction(
+    name: string,
+    action: _Method,
+    actionOptions: ActionOptions = resolveActionOptions(name, action)
+  ) {
+    const { concurrency = 'parallel' } = actionOptions
+    // takeFirst: 正在执行的调用
+    let pendingInvocation: Promise<unknown> | undefined
+    // queue: 队列中最后一个调用，不会 reject
+    let queueTail: Promise<unknown> | undefined
+    // takeLatest: 最新一次调用
+    let latestInvocation: Promise<unknown> | undefined
+
+    /**
+     * takeLatest 中被之后的调用取消的调用跟随最新一次调用的结果，
+     * 在输入事件中调用而不等待时不会产生 unhandled rejection。被 $cancel() 直接取消时仍然 reject
+     */
+    function settleWithLatest(promise: Promise<unknown>): Promise<unknown> {
+      return promise.catch((error) => {
+        if (
+          error instanceof ActionCancelledError &&
+          latestInvocation &&
+          latestInvocation !== promise
+        ) {
+          return settleWithLatest(latestInvocation)
+        }
+        return Promise.reject(error)
+      })
+    }
+
     return function (this: any) {
       setActivePinia(pinia)
       const args = Array.from(arguments)
+      const context = this && this.$id === $id ? this : store
+      const run = () => invokeAction(name, action, actionOptions, context, args)
+
+      // 根据并发策略决定如何执行，只有异步的 action 才会同时执行
+      if (concurrency === 'takeFirst') {
+        // 已经有正在执行的调用时，直接复用它的结果
+        if (pendingInvocation) return pendingInvocation
+        const ret = run()
+        if (ret instanceof Promise) {
+          const clear = () => {
+            pendingInvocation = undefined
+          }
+          pendingInvocation = ret
+          ret.then(clear, clear)
+        }
+        return ret
+      }
 
-      const afterCallbackList: Array<(resolvedReturn: any) => any> = []
-      const onErrorCallbackList: Array<(error: unknown) => unknown> = []
-      function after(callback: _ArrayType<typeof afterCallbackList>) {
-        afterCallbackList.push(callback)
+      if (concurrency === 'queue') {
+        // 等待之前的调用完成后再执行，无论之前的调用是否成功
+        const ret = queueTail ? queueTail.then(run, run) : run()
+        if (ret instanceof Promise) {
+          const tail = (queueTail = ret.then(noop, noop))
+          tail.then(() => {
+            if (queueTail === tail) queueTail = undefined
+          })
+        }
+        return ret
       }
-      function onError(callback: _ArrayType<typeof onErrorCallbackList>) {
-        onErrorCallbackList.push(callback)
+
+      if (concurrency === 'takeLatest') {
+        // 取消之前的调用，它们的 onError() 回调会收到 ActionCancelledError
+        $cancel(name)
+        const ret = run()
+        if (!(ret instanceof Promise)) return ret
+        latestInvocation = ret
+        return settleWithLatest(ret)
       }
 
-      // @ts-expect-error
-      triggerSubscriptions(actionSubscriptions, {
-        args,
-        name,
-        store,
-        after,
-        onError,
-      })
+      return run()
+    }
+  }
+
+  /**
+   * 执行一次 action 调用，并触发 $onAction 的订阅
+   *
+   * @param name - action 的名字
+   * @param action - 原始的 action
+   * @param actionOptions - action 的配置
+   * @param thisArg - action 中的 this
+   * @param args - 传给 action 的参数
+   * @returns action 的返回值
+   */
+  function invokeAction(
+    name: string,
+    action: _Method,
+    actionOptions: ActionOptions,
+    thisArg: any,
+    args: any[]
+  ) {
+    const invocationId = ++actionInvocationId
+    const scopeId = ++errorScopeId
+    const startTime = Date.now()
+    const start = now()
+    // 在 action 结束时调用，计算耗时
+    const getTiming = (): ActionTiming => ({
+      invocationId,
+      startTime,
+      duration: now() - start,
+    })
+
+    const afterCallbackList: Array<
+      (resolvedReturn: any, timing: ActionTiming) => any
+    > = []
+    const onErrorCallbackList: Array<
+      (error: unknown, timing: ActionTiming) => unknown
+    > = []
+    function after(callback: _ArrayType<typeof afterCallbackList>) {
+      afterCallbackList.push(callback)
+    }
+    function onError(callback: _ArrayType<typeof onErrorCallbackList>) {
+      onErrorCallbackList.push(callback)
+    }
+
+    // 每次调用都有自己的 AbortController，可以通过 $cancel 取消
+    const controller = new AbortController()
+    const { signal } = controller
+    const controllers =
+      runningControllers.get(name) ||
+      runningControllers.set(name, new Set()).get(name)!
+    controllers.add(controller)
+
+    const onRetryCallbackList: Array<
+      (error: unknown, attempt: number) => unknown
+    > = []
+    function onRetry(callback: _ArrayType<typeof onRetryCallbackList>) {
+      onRetryCallbackList.push(callback)
+    }
+
+    // attempt 在每次重试时更新
+    const listenerContext = {
+      args,
+      name,
+      store,
+      signal,
+      invocationId,
+      startTime,
+      attempt: 1,
+      after,
+      onError,
+      onRetry,
+    }
+    // @ts-expect-error
+    triggerSubscriptions(actionSubscriptions, listenerContext)
+
+    // action 的 this 可以通过 $signal 获取到 signal，其他属性直接访问 store
+    const context = new Proxy(thisArg, {
+      get: (target, key) =>
+        key === '$signal' ? signal : Reflect.get(target, key),
+      set: (target, key, value) => Reflect.set(target, key, value),
+    })
 
-      let ret: any
+    /**
+     * 调用一次 action，在同步执行期间可以通过 getActionSignal() 获取 signal
+     */
+    function callAction() {
+      const previousSignal = setActionSignal(signal)
       try {
-        ret = action.apply(this && this.$id === $id ? this : store, args)
-        // handle sync errors
-      } catch (error) {
-        triggerSubscriptions(onErrorCallbackList, error)
-        throw error
+        return runInStore($id, () =>
+          actionOptions.transactional
+            ? $transaction(() => action.apply(context, args))
+            : action.apply(context, args)
+        )
+      } finally {
+        setActionSignal(previousSignal)
       }
+    }
 
-      if (ret instanceof Promise) {
-        return ret
-          .then((value) => {
-            triggerSubscriptions(afterCallbackList, value)
-            return value
-          })
-          .catch((error) => {
-            triggerSubscriptions(onErrorCallbackList, error)
+    const retryOptions = normalizeRetryOptions(actionOptions.retry)
+
+    /**
+     * promise reject 时，如果配置了 retry 并且还可以重试，则等待一段时间后重新调用 action
+     */
+    function retryOnRejection(promise: Promise<unknown>): Promise<unknown> {
+      return promise.catch((error) => {
+        const attempt = listenerContext.attempt
+        if (
+          !retryOptions ||
+          signal.aborted ||
+          attempt >= retryOptions.attempts ||
+          !retryOptions.shouldRetry(error, attempt)
+        ) {
+          return Promise.reject(error)
+        }
+        triggerSubscriptions(onRetryCallbackList, error, attempt)
+        return new Promise((resolve) => {
+          setTimeout(resolve, getRetryDelay(retryOptions, attempt))
+        }).then(() => {
+          // 等待期间被取消时不再重试
+          if (signal.aborted) return Promise.reject(signal.reason)
+          listenerContext.attempt = attempt + 1
+          let ret: unknown
+          try {
+            ret = callAction()
+          } catch (error) {
             return Promise.reject(error)
-          })
-      }
+          }
+          return retryOnRejection(Promise.resolve(ret))
+        })
+      })
+    }
+
+    let ret: any
+    runningActions++
+    activeActionCount++
+    try {
+      ret = callAction()
+      // handle sync errors
+    } catch (error) {
+      controllers.delete(controller)
+      onActionSettled()
+      triggerSubscriptions(onErrorCallbackList, error, getTiming())
+      reportError(
+        pinia,
+        {
+          storeId: $id,
+          source: 'action',
+          name,
+          args,
+          error,
+        },
+        scopeId
+      )
+      throw error
+    }
 
-      // trigger after callbacks
-      triggerSubscriptions(afterCallbackList, ret)
-      return ret
+    if (ret instanceof Promise) {
+      // 被取消时不再等待 action 完成，直接以取消的原因 reject
+      const cancelled = new Promise<never>((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason), {
+          once: true,
+        })
+      })
+      return Promise.race([retryOnRejection(ret), cancelled])
+        .then((value) => {
+          controllers.delete(controller)
+          onActionSettled()
+          triggerSubscriptions(afterCallbackList, value, getTiming())
+          return value
+        })
+        .catch((error) => {
+          controllers.delete(controller)
+          onActionSettled()
+          triggerSubscriptions(onErrorCallbackList, error, getTiming())
+          reportError(
+            pinia,
+            {
+              storeId: $id,
+              source: 'action',
+              name,
+              args,
+              error,
+            },
+            scopeId
+          )
+          return Promise.reject(error)
+        })
     }
+
+    controllers.delete(controller)
+    onActionSettled()
+    // trigger after callbacks
+    triggerSubscriptions(afterCallbackList, ret, getTiming())
+    return ret
+  }
+
+  /**
+   * 包装订阅回调，回调抛出的错误会报告给 pinia 的错误处理函数
+   * @param name 订阅的方法名
+   * @param callback 订阅回调
+   * @returns 包装后的回调
+   */
+  function withErrorReporting<F extends _Method>(name: string, callback: F): F {
+    return function (this: any, ...args: any[]) {
+      const scopeId = ++errorScopeId
+      try {
+        return callback.apply(this, args)
+      } catch (error) {
+        reportError(
+          pinia,
+          {
+            storeId: $id,
+            source: 'subscription',
+            name,
+            args,
+            error,
+          },
+          scopeId
+        )
+        throw error
+      }
+    } as F
   }
 
   const _hmrPayload = /*#__PURE__*/ markRaw({
@@ -508,9 +2068,21 @@ function createSetupStore<
      * - name: action 的名称
      * - args: 传递给 action 的参数
      */
-    $onAction: addSubscription.bind(null, actionSubscriptions),
+    $onAction(callback, detached) {
+      return addSubscription(
+        actionSubscriptions,
+        withErrorReporting('$onAction', callback),
+        detached
+      )
+    },
     $patch,
     $reset,
+    $undo,
+    $redo,
+    $transaction,
+    $batch,
+    $cancel,
+    $initialized: initialized as unknown as boolean,
     /**
      * 当状态发生变化时被调用
      * 它会返回一个用来移除此回调的函数
@@ -520,33 +2092,62 @@ function createSetupStore<
      */
     $subscribe(callback, options = {}) {
       Log("$subscribe", options);
+      callback = withErrorReporting('$subscribe', callback)
+      trackChanges()
+      /**
+       * 通知直接修改
+       * @param changes 修改列表
+       */
+      const notify = (changes: StateChange[]) =>
+        callback(
+          {
+            storeId: $id,
+            type: MutationType.direct,
+            events: debuggerEvents as DebuggerEvent,
+            changes,
+          },
+          pinia.state.value[$id] as UnwrapRef<S>
+        )
+      // 上次通知之后的直接修改
+      let pendingChanges: StateChange[] = []
+      // 有新的直接修改时加一，异步的订阅 watch 它，按照 flush 选项的时机通知
+      const pendingVersion = ref(0)
+      // 同步的订阅在修改被记录时立即通知
+      const removeChangeListener = addSubscription(
+        changeListeners,
+        options.flush === 'sync'
+          ? notify
+          : (changes: StateChange[]) => {
+              pendingChanges.push(...changes)
+              pendingVersion.value++
+            },
+        true
+      )
       // 取消订阅函数
       const removeSubscription = addSubscription(
         subscriptions,
         callback,
         options.detached,
-        () => stopWatcher()
+        () => {
+          stopWatcher()
+          removeChangeListener()
+        }
       )
       // effectScope：创建一个 effect 作用域，可以补货其中所创建的响应式副作用 (即计算属性和侦听器)，这里用于捕获 watch，以便于销毁store的时候统一处理。
-      const stopWatcher = scope.run(() =>
-        // 从这里可以看出 pinia 的订阅响应式主要是依赖 vue 的 watch
-        watch(
-          () => pinia.state.value[$id] as UnwrapRef<S>,
-          (state) => {
-            if (options.flush === 'sync' ? isSyncListening : isListening) {
-              callback(
-                {
-                  storeId: $id,
-                  type: MutationType.direct,
-                  events: debuggerEvents as DebuggerEvent,
+      const stopWatcher =
+        options.flush === 'sync'
+          ? noop
+          : scope.run(() =>
+              watch(
+                pendingVersion,
+                () => {
+                  const changes = pendingChanges
+                  pendingChanges = []
+                  if (changes.length) notify(changes)
                 },
-                state
+                options
               )
-            }
-          },
-          assign({}, $subscribeOptions, options)
-        )
-      )!
+            )!
 
       return removeSubscription
     },
@@ -583,106 +2184,172 @@ function createSetupStore<
   // 现在存储 partial store，以便 store 的 setup 可以在完成之前相互实例化，而不会创建无限循环。
   pinia._s.set($id, store)
 
-  // TODO: 想法创建 skipSerialize 将属性标记为不可序列化并跳过它们
   // 在当前 pinia 实例的缓存中新建一个作用域，在作用域中执行 setup 函数
   // 执行的结果为 store 。 example: { count: ObjectRefImpl, increment: Function () }
-  const setupStore = pinia._e.run(() => {
+  const setupScopeId = ++errorScopeId
+  const setupResult = pinia._e.run(() => {
     scope = effectScope()
-    return scope.run(() => setup())
-  })!
-
-  // 覆盖现有操作以支持 $onAction
-  for (const key in setupStore) {
-    const prop = setupStore[key]
+    return scope.run(() => {
+      // 让 setup 中调用的 memoizeGetter() 在 store 的作用域中创建缓存
+      const previousScope = setActiveSetupScope(scope)
+      try {
+        return runInStore(hot ? undefined : $id, setup)
+      } finally {
+        setActiveSetupScope(previousScope)
+      }
+    })
+  })! as SS | Promise<SS>
+
+  // 异步的 setup 在 resolve 之后才把 state、getters 和 actions 添加到 store 中
+  // 初始化完成之前不通知订阅者
+  let $ready: Promise<void>
+  if (setupResult instanceof Promise) {
+    debuggerEvents = []
+    $ready = setupResult.then((setupStore) => {
+      applySetupStore(setupStore)
+      applyPlugins()
+      onInitialized()
+      resumeListening()
+    })
+    // 失败的 store 保持未初始化的状态，可以销毁之后重新创建。
+    // 错误报告给 pinia 的错误处理函数，没有等待 $ready 时也不会产生 unhandled rejection
+    $ready.catch((error) => {
+      resumeListening()
+      reportError(
+        pinia,
+        {
+          storeId: $id,
+          source: 'setup',
+          name: isOptionsStore ? 'state' : 'setup',
+          args: [],
+          error,
+        },
+        setupScopeId
+      )
+    })
+  } else {
+    $ready = Promise.resolve(applySetupStore(setupResult))
+  }
+  /* istanbul ignore if */
+  if (isVue2) {
+    set(store, '$ready', $ready)
+  } else {
+    store.$ready = $ready
+  }
 
-    // ((如果是 ref) 并且 (不是 computed)) 或者 (是 reactive)
-    if ((isRef(prop) && !isComputed(prop)) || isReactive(prop)) {
-      // 将其标记为要序列化的状态
-      if (__DEV__ && hot) {
-        set(hotState.value, key, toRef(setupStore as any, key))
-        // createOptionStore 直接在 pinia.state.value 中设置 state，所以我们可以跳过它
-      } else if (!isOptionsStore) {
-        // 如果是 optionsStore 方式创建，option 结构已经在 createOptionsStore 将其加入 pinia
-        // in setup stores we must hydrate the state and sync pinia state tree with the refs the user just created
-        // 在 setup stores 中，我们必须将 state 和 pinia 状态树与用户刚刚创建的引用同步
-        if (initialState && shouldHydrate(prop)) {
-          if (isRef(prop)) {
-            prop.value = initialState[key]
+  /**
+   * 处理 setup 函数返回的对象，并将其中的属性添加到 store 中
+   * @param setupStore setup 函数的返回值
+   */
+  function applySetupStore(result: SS) {
+    setupStore = result
+    // 覆盖现有操作以支持 $onAction
+    for (const key in setupStore) {
+      const prop = setupStore[key]
+
+      // ((如果是 ref) 并且 (不是 computed)) 或者 (是 reactive)
+      if ((isRef(prop) && !isComputed(prop)) || isReactive(prop)) {
+        // 将其标记为要序列化的状态
+        if (__DEV__ && hot) {
+          set(hotState.value, key, toRef(setupStore as any, key))
+          // createOptionStore 直接在 pinia.state.value 中设置 state，所以我们可以跳过它
+        } else if (!isOptionsStore) {
+          // 如果是 optionsStore 方式创建，option 结构已经在 createOptionsStore 将其加入 pinia
+          // in setup stores we must hydrate the state and sync pinia state tree with the refs the user just created
+          // 在 setup stores 中，我们必须将 state 和 pinia 状态树与用户刚刚创建的引用同步
+          // 在 hydrate 之前保存 state 快照，供 $reset 使用，配置了 reset 时不需要。
+          // skipHydrate 标记的对象不是真正的 state，setup 中使用的其他 store 也不是，跳过
+          const isState = shouldHydrate(prop) && shouldSerialize(prop)
+          if (isState && needsInitialState && !isStoreOrPinia(prop)) {
+            setupInitialState[key] = cloneState(prop)
+          }
+          if (initialState && isState) {
+            if (isRef(prop)) {
+              prop.value = initialState[key]
+            } else {
+              // 可能是一个 reactive 对象，递归
+              // mergeReactiveObjects 合并 reactive 对象
+              // @ts-expect-error: prop is unknown
+              mergeReactiveObjects(prop, initialState[key])
+            }
+          }
+          // 将 ref 转移到 pinia state 以保持一切同步
+          /* istanbul ignore if */
+          if (isVue2) {
+            set(pinia.state.value[$id], key, prop)
           } else {
-            // 可能是一个 reactive 对象，递归
-            // mergeReactiveObjects 合并 reactive 对象
-            // @ts-expect-error: prop is unknown
-            mergeReactiveObjects(prop, initialState[key])
+            pinia.state.value[$id][key] = prop
+          }
+          if (!shouldSerialize(prop)) {
+            hideUnserializableState(pinia.state.value[$id], key)
           }
         }
-        // 将 ref 转移到 pinia state 以保持一切同步
+
+        /* istanbul ignore else */
+        if (__DEV__) {
+          _hmrPayload.state.push(key)
+        }
+        // 否则，如果是函数类型，那么它就是一个 action
+      } else if (typeof prop === 'function' && !isMemoizedGetter(prop)) {
+        // 如果是重写这个值，应该避免使用 wrapAction 重复包装
+        // @ts-expect-error: we are overriding the function we avoid wrapping if
+        const actionValue = __DEV__ && hot ? prop : wrapAction(key, prop)
+        // 这是一个热更新模块替换 store，因为 hotUpdate 方法需要在正确的上下文中执行它
         /* istanbul ignore if */
         if (isVue2) {
-          set(pinia.state.value[$id], key, prop)
+          set(setupStore, key, actionValue)
         } else {
-          pinia.state.value[$id][key] = prop
+          // @ts-expect-error
+          setupStore[key] = actionValue
         }
-      }
 
-      /* istanbul ignore else */
-      if (__DEV__) {
-        _hmrPayload.state.push(key)
-      }
-      // 否则，如果是函数类型，那么它就是一个 action
-    } else if (typeof prop === 'function') {
-      // 如果是重写这个值，应该避免使用 wrapAction 重复包装
-      // @ts-expect-error: we are overriding the function we avoid wrapping if
-      const actionValue = __DEV__ && hot ? prop : wrapAction(key, prop)
-      // 这是一个热更新模块替换 store，因为 hotUpdate 方法需要在正确的上下文中执行它
-      /* istanbul ignore if */
-      if (isVue2) {
-        set(setupStore, key, actionValue)
-      } else {
-        // @ts-expect-error
-        setupStore[key] = actionValue
-      }
-
-      /* istanbul ignore else */
-      if (__DEV__) {
-        _hmrPayload.actions[key] = prop
-      }
+        /* istanbul ignore else */
+        if (__DEV__) {
+          _hmrPayload.actions[key] = prop
+        }
 
-      // 将 actions 存储到插件配置的 actions 数组，以便它们可以在插件中使用
-      // @ts-expect-error
-      optionsForPlugin.actions[key] = prop
-    } else if (__DEV__) {
-      // 为 devtools 添加 getter
-      if (isComputed(prop)) {
-        _hmrPayload.getters[key] = isOptionsStore
-          ? // @ts-expect-error
-            options.getters[key]
-          : prop
-        if (IS_CLIENT) {
-          const getters: string[] =
-            (setupStore._getters as string[]) ||
-            // @ts-expect-error: same
-            ((setupStore._getters = markRaw([])) as string[])
-          getters.push(key)
+        // 将 actions 存储到插件配置的 actions 数组，以便它们可以在插件中使用
+        // @ts-expect-error
+        optionsForPlugin.actions[key] = prop
+      } else if (__DEV__) {
+        // 为 devtools 添加 getter
+        if (isComputed(prop) || isMemoizedGetter(prop)) {
+          _hmrPayload.getters[key] = isOptionsStore
+            ? // @ts-expect-error
+              options.getters[key]
+            : prop
+          if (IS_CLIENT) {
+            const getters: string[] =
+              (setupStore._getters as string[]) ||
+              // @ts-expect-error: same
+              ((setupStore._getters = markRaw([])) as string[])
+            getters.push(key)
+          }
         }
       }
     }
-  }
 
-  // 添加 state、getters 和 action 属性到 store 中
-  /* istanbul ignore if */
-  if (isVue2) {
-    Object.keys(setupStore).forEach((key) => {
-      set(store, key, setupStore[key])
-    })
-  } else {
-    assign(store, setupStore)
-    // 允许使用 `storeToRefs()` 检索 reactive 对象。 必须在分配给 reactive 对象后调用。
-    /**
-     * storeToRefs(): https://pinia.vuejs.org/zh/api/modules/pinia.html#storetorefs
-     * 创建一个引用对象，包含 store 的所有 state、 getters 和 plugin 添加的 state 属性。 类似于 toRefs()，但专门为 Pinia store 设计， 所以 method 和非响应式属性会被完全忽略。
-     */
-    // 使 `storeToRefs()` 与 `reactive()` 一起工作#799
-    assign(toRaw(store), setupStore)
+    // 添加 state、getters 和 action 属性到 store 中
+    /* istanbul ignore if */
+    if (isVue2) {
+      Object.keys(setupStore).forEach((key) => {
+        set(store, key, setupStore[key])
+      })
+    } else {
+      assign(store, setupStore)
+      // 允许使用 `storeToRefs()` 检索 reactive 对象。 必须在分配给 reactive 对象后调用。
+      /**
+       * storeToRefs(): https://pinia.vuejs.org/zh/api/modules/pinia.html#storetorefs
+       * 创建一个引用对象，包含 store 的所有 state、 getters 和 plugin 添加的 state 属性。 类似于 toRefs()，但专门为 Pinia store 设计， 所以 method 和非响应式属性会被完全忽略。
+       */
+      // 使 `storeToRefs()` 与 `reactive()` 一起工作#799
+      assign(toRaw(store), setupStore)
+    }
+
+    // 开发环境下服务端记录 store 创建时的 state，和 state 一起序列化，客户端用于检查 hydration mismatch
+    if (__DEV__ && !IS_CLIENT && !initialState && !hot) {
+      pinia._is[$id] = snapshotState()
+    }
   }
 
   // use this instead of a computed with setter to be able to create it anywhere
@@ -697,12 +2364,18 @@ function createSetupStore<
       if (__DEV__ && hot) {
         throw new Error('cannot set hotState')
       }
-      $patch(($state) => {
-        assign($state, state)
-      })
+      replaceState(state)
     },
   })
 
+  // 是否可以撤销/重做，读取 shallowReactive 数组的长度，所以是响应式的
+  Object.defineProperty(store, '$canUndo', {
+    get: () => undoStack.length > 0,
+  })
+  Object.defineProperty(store, '$canRedo', {
+    get: () => redoStack.length > 0,
+  })
+
   // add the hotUpdate before plugins to allow them to override it
   // 在插件之前添加 hotUpdate 以允许它们覆盖它
   // 热更新相关，不细读了
@@ -757,10 +2430,19 @@ function createSetupStore<
         const getter: _Method = newStore._hmrPayload.getters[getterName]
         const getterValue = isOptionsStore
           ? // special handling of options api
-            computed(() => {
-              setActivePinia(pinia)
-              return getter.call(store, store)
-            })
+            isMemoizedGetter(getter)
+            ? createMemoizedGetter(
+                (...args: any[]) => {
+                  setActivePinia(pinia)
+                  return getter.call(store, store)(...args)
+                },
+                getMemoizeGetterOptions(getter)!,
+                scope
+              )
+            : computed(() => {
+                setActivePinia(pinia)
+                return getter.call(store, store)
+              })
           : getter
 
         set(store, getterName, getterValue)
@@ -784,6 +2466,7 @@ function createSetupStore<
       store._hmrPayload = newStore._hmrPayload
       store._getters = newStore._getters
       store._hotUpdating = false
+      triggerSubscriptions(pinia._h.hotUpdated, store)
     })
   }
 
@@ -813,30 +2496,18 @@ function createSetupStore<
     store._r = true
   }
 
-  // apply 全部插件
-  pinia._p.forEach((extender) => {
-    console.log("插件安装：", extender);
-    // 如果使用开发工具
-    /* istanbul ignore else */
-    if (USE_DEVTOOLS) {
-      const extensions = scope.run(() =>
-        // 调用插件，并传入参数
-        extender({
-          store,
-          app: pinia._a,
-          pinia,
-          options: optionsForPlugin,
-        })
-      )!
-      Object.keys(extensions || {}).forEach((key) =>
-        store._customProperties.add(key)
-      )
-      assign(store, extensions)
-    } else {
-      // 这里将插件返回的属性合并到 store 中
-      assign(
-        store,
-        scope.run(() =>
+  /**
+   * apply 全部插件
+   * 异步的 setup 在 resolve 之后调用，插件可以访问 state 和 actions，插件对 state 的修改也不会被 setup 的结果覆盖
+   */
+  function applyPlugins() {
+    pinia._p.forEach((extender) => {
+      console.log("插件安装：", extender);
+      // 如果使用开发工具
+      /* istanbul ignore else */
+      if (USE_DEVTOOLS) {
+        const extensions = scope.run(() =>
+          // 调用插件，并传入参数
           extender({
             store,
             app: pinia._a,
@@ -844,9 +2515,29 @@ function createSetupStore<
             options: optionsForPlugin,
           })
         )!
-      )
-    }
-  })
+        Object.keys(extensions || {}).forEach((key) =>
+          store._customProperties.add(key)
+        )
+        assign(store, extensions)
+      } else {
+        // 这里将插件返回的属性合并到 store 中
+        assign(
+          store,
+          scope.run(() =>
+            extender({
+              store,
+              app: pinia._a,
+              pinia,
+              options: optionsForPlugin,
+            })
+          )!
+        )
+      }
+    })
+  }
+  if (!(setupResult instanceof Promise)) {
+    applyPlugins()
+  }
 
   if (
     __DEV__ &&
@@ -876,8 +2567,112 @@ function createSetupStore<
     )
   }
 
-  isListening = true
-  isSyncListening = true
+  /**
+   * store 的 state 创建完成之后调用，异步的 setup 在 resolve 之后调用
+   */
+  function onInitialized() {
+    initializedCallbacks.forEach((callback) => callback())
+    initialized.value = true
+  }
+
+  if (__DEV__ && serverInitialState) {
+    initializedCallbacks.push(() =>
+      reportHydrationMismatches(
+        pinia,
+        $id,
+        serverInitialState,
+        setupInitialState,
+        // setupInitialState 中只有会被 hydrate 的 state
+        (key) => key in setupStore && !(key in setupInitialState)
+      )
+    )
+  }
+
+  // 配置了 validate 时，hydrate 之后和每次修改之后校验 state
+  if (options.validate && !(__DEV__ && hot)) {
+    const validate = options.validate
+    const reportValidation = (
+      trigger: StateValidationContext['trigger'],
+      mutation?: SubscriptionCallbackMutation<S>
+    ) => {
+      const state = pinia.state.value[$id] as UnwrapRef<S>
+      const errors = normalizeValidationResult(validate(state))
+      if (!errors.length) return
+      if (pinia._vr) {
+        pinia._vr({ storeId: $id, errors, state, trigger, mutation })
+      } else {
+        console.warn(
+          `[🍍]: Invalid state in store "${$id}" after ${trigger}:\n` +
+            errors.map((error) => `- ${error}`).join('\n')
+        )
+      }
+    }
+    initializedCallbacks.push(() => {
+      if (initialState) {
+        reportValidation('hydration')
+      }
+    })
+    // 同步订阅，直接修改之后立即校验，不依赖异步订阅的通知时机
+    store.$subscribe(
+      (mutation) => reportValidation('mutation', mutation),
+      { detached: true, flush: 'sync' }
+    )
+  }
+
+  // 开启历史记录后，通过同步订阅记录每一次修改（数组的一次操作只通知一次），action 中的修改在 action 结束后合并提交
+  if (historyOptions && !(__DEV__ && hot)) {
+    initializedCallbacks.push(() => {
+      historyState = snapshotState()
+    })
+    store.$subscribe(
+      () => {
+        if (isTimeTraveling) return
+        if (runningActions) {
+          hasPendingHistory = true
+        } else {
+          commitHistory()
+        }
+      },
+      { detached: true, flush: 'sync' }
+    )
+  }
+
+  // 严格模式下，在 action、$patch 之外直接修改 state 时报告。
+  // onTrigger 在修改之后执行，不能阻止修改，在这里抛出错误会中断 vue 对其他 effect 的通知，所以只打印
+  /* istanbul ignore else */
+  if (__DEV__ && pinia._strict && !hot && !isVue2) {
+    scope.run(() =>
+      watch(() => pinia.state.value[$id], noop, {
+        deep: true,
+        flush: 'sync',
+        onTrigger(event) {
+          // $patch、$batch、$reset 等修改时 isSyncListening 为 false
+          if (!isSyncListening || activeActionCount) return
+          const message =
+            `[🍍]: The state of store "${$id}" was mutated outside of an action ` +
+            `(key "${String(event.key)}"). Use an action or "store.$patch()" instead.`
+          if (pinia._strict === 'warn') {
+            console.warn(message)
+          } else {
+            // Error 的调用栈指向修改 state 的代码
+            console.error(new Error(message))
+          }
+        },
+      })
+    )
+  }
+
+  // 异步的 setup 在 resolve 之后才完成初始化
+  if (!(setupResult instanceof Promise)) {
+    onInitialized()
+    isListening = true
+    isSyncListening = true
+  }
+
+  // 热更新创建的临时 store 不通知
+  if (!(__DEV__ && hot)) {
+    triggerSubscriptions(pinia._h.created, store)
+  }
   return store
 }
 
@@ -959,16 +2754,44 @@ export function defineStore<
   A /* extends ActionsTree */ = {}
 >(options: DefineStoreOptions<Id, S, G, A>): StoreDefinition<Id, S, G, A>
 
+/**
+ * Creates a `useStore(key)` function that retrieves the store instance of a
+ * key
+ *
+ * @param id - id of the store (must be unique)
+ * @param storeSetup - function that defines the store, receives the key
+ * @param options - extra options, `keyed` must be `true`
+ */
+export function defineStore<Id extends string, K extends string | number, SS>(
+  id: Id,
+  storeSetup: (key: K) => SS | Promise<SS>,
+  options: DefineSetupStoreOptions<
+    Id,
+    _ExtractStateFromSetupStore<SS>,
+    _ExtractGettersFromSetupStore<SS>,
+    _ExtractActionsFromSetupStore<SS>
+  > & { keyed: true }
+): KeyedStoreDefinition<
+  Id,
+  K,
+  _ExtractStateFromSetupStore<SS>,
+  _ExtractGettersFromSetupStore<SS>,
+  _ExtractActionsFromSetupStore<SS>
+>
+
 /**
  * Creates a `useStore` function that retrieves the store instance
  *
  * @param id - id of the store (must be unique)
- * @param storeSetup - function that defines the store
+ * @param storeSetup - function that defines the store. It can be async: the
+ * properties it returns are then only available once `store.$ready` resolves
+ * and computed properties and watchers must be created before the first
+ * `await` to be stopped with the store
  * @param options - extra options
  */
 export function defineStore<Id extends string, SS>(
   id: Id,
-  storeSetup: () => SS,
+  storeSetup: () => SS | Promise<SS>,
   options?: DefineSetupStoreOptions<
     Id,
     _ExtractStateFromSetupStore<SS>,
@@ -986,7 +2809,7 @@ export function defineStore(
   idOrOptions: any,
   setup?: any,
   setupOptions?: any
-): StoreDefinition {
+): StoreDefinition | KeyedStoreDefinition {
   let id: string
   let options:
     | DefineStoreOptions<
@@ -1015,7 +2838,20 @@ export function defineStore(
     id = idOrOptions.id
   }
 
-  function useStore(pinia?: Pinia | null, hot?: StoreGeneric): StoreGeneric {
+  /**
+   * 获取 store，不存在时创建
+   * @param storeId store 的 id，keyed store 为 `id:key`
+   * @param storeSetup setup 函数
+   * @param pinia Pinia 实例
+   * @param hot 热更新相关
+   * @returns store
+   */
+  function getStore(
+    storeId: string,
+    storeSetup: () => any,
+    pinia?: Pinia | null,
+    hot?: StoreGeneric
+  ): StoreGeneric {
     Log("useStore()");
 
     // 获取当前 vue 实例
@@ -1026,7 +2862,9 @@ export function defineStore(
       // 或者 如果获取到了当前实例 并且 存在piniaSymbol 返回 inject(piniaSymbol, null) 否则 返回空
       (__TEST__ && activePinia && activePinia._testing ? null : pinia) ||
       // 这里的 inject(piniaSymbol) 是在 createPinia 的 install 中 app.provide(piniaSymbol, pinia);
-      (currentInstance && inject(piniaSymbol, null))
+      (currentInstance && inject(piniaSymbol, null)) ||
+      // 服务端渲染时使用当前请求的 pinia，而不是上一个激活的 pinia
+      getRequestPinia()
     
     // console.log("pinia 实例 ==>", pinia)
     
@@ -1034,8 +2872,11 @@ export function defineStore(
     // 如果存在多个 pinia 实例，方便后续逻辑获取当前pinia实例
     if (pinia) setActivePinia(pinia)
 
+    // 服务端模式下 setActivePinia() 不生效，activePinia 不会是其他请求的 pinia
+    pinia = pinia || activePinia
+
     // 在 dev环境 并且 获取不到当前 pinia 实例，则说明未全局注册，抛出错误
-    if (__DEV__ && !activePinia) {
+    if (__DEV__ && !pinia) {
       throw new Error(
         `[🍍]: getActivePinia was called with no active Pinia. Did you forget to install pinia?\n` +
           `\tconst pinia = createPinia()\n` +
@@ -1044,36 +2885,65 @@ export function defineStore(
       )
     }
 
-    // 将激活的 pinia 实例赋值给 pinia 变量，确保 pinia === activePinia。防止 setActivePinia 出错导致两个变量不一致
-    pinia = activePinia!
+    // 生产环境下不检查，假设 pinia 存在
+    pinia = pinia!
+
+    if (__DEV__) {
+      const requestPinia = getRequestPinia()
+      if (requestPinia && requestPinia !== pinia) {
+        console.warn(
+          `[🍍]: The store "${storeId}" was used with a pinia that doesn't belong to the current request. ` +
+            `Its state could leak between requests. Pass the pinia of the request to "useStore()" or don't pass any.`
+        )
+      } else if (!requestPinia && isRequestPinia(pinia)) {
+        console.warn(
+          `[🍍]: The store "${storeId}" was used outside of "runWithPinia()" with the pinia of a request. ` +
+            `Its state could leak between requests. Use the store inside "runWithPinia()".`
+        )
+      }
+    }
 
     // 如果 pinia 的 store 缓存中没有当前的 id，则创建新的 store，
     // 否则直接获取缓存中 store。
-    if (!pinia._s.has(id)) {
+    if (!pinia._s.has(storeId)) {
       // 创建 store 并将其注册在 pinia._s 中
       if (isSetupStore) {
         // 组合式
-        createSetupStore(id, setup, options, pinia)
+        createSetupStore(storeId, storeSetup, options, pinia)
       } else {
         // 选项式
-        createOptionsStore(id, options as any, pinia)
+        createOptionsStore(storeId, options as any, pinia)
       }
 
       /* istanbul ignore else */
       if (__DEV__) {
-        // @ts-expect-error: not the right inferred type
         useStore._pinia = pinia
       }
     }
 
     // 获取 pinia 缓存中的 store
-    const store: StoreGeneric = pinia._s.get(id)!
+    const store: StoreGeneric = pinia._s.get(storeId)!
+
+    // 在其他 store 的 setup、getter 或者 action 中使用时，记录依赖关系
+    const dependentId = runningStoreIds[runningStoreIds.length - 1]
+    if (dependentId && dependentId !== storeId) {
+      const dependencies =
+        pinia._d.get(dependentId) ||
+        pinia._d.set(dependentId, new Set()).get(dependentId)!
+      dependencies.add(storeId)
+    }
+
+    // 开启 autoDispose 时，记录在哪些组件的作用域中使用了 store
+    const currentScope = getCurrentScope()
+    if (options && options.autoDispose && currentScope && !hot) {
+      trackStoreConsumer(store, currentScope, options.autoDispose)
+    }
 
     // 开发环境 并且 是热更新
     if (__DEV__ && hot) {
-      const hotId = '__hot:' + id
+      const hotId = '__hot:' + storeId
       const newStore = isSetupStore
-        ? createSetupStore(hotId, setup, options, pinia, true)
+        ? createSetupStore(hotId, storeSetup, options, pinia, true)
         : createOptionsStore(hotId, assign({}, options) as any, pinia, true)
 
       hot._hotUpdate(newStore)
@@ -1094,13 +2964,63 @@ export function defineStore(
     ) {
       const vm = currentInstance.proxy
       const cache = '_pStores' in vm ? vm._pStores! : (vm._pStores = {})
-      cache[id] = store
+      cache[storeId] = store
     }
 
     // StoreGeneric cannot be casted towards Store
     return store as any
   }
 
+  // keyed store 的每个 key 对应一个 id 为 `id:key` 的 store，setup 函数接收 key
+  const isKeyed =
+    isSetupStore &&
+    !!options &&
+    !!(options as DefineSetupStoreOptions<string, StateTree, {}, {}>).keyed
+  const useStore: StoreDefinition & Partial<KeyedStoreDefinition> = isKeyed
+    ? assign(
+        function useKeyedStore(
+          key: string | number,
+          pinia?: Pinia | null,
+          hot?: StoreGeneric
+        ) {
+          const store = getStore(
+            `${id}:${key}`,
+            () => setup(key),
+            pinia,
+            hot
+          )
+          storeKeys.set(store, key)
+          return store
+        } as any,
+        {
+          keys(pinia?: Pinia | null) {
+            pinia = pinia || getActivePinia()
+            const keys: Array<string | number> = []
+            if (pinia) {
+              pinia._s.forEach((store, storeId) => {
+                const key = storeKeys.get(store)
+                if (key !== undefined && storeId === `${id}:${key}`) {
+                  keys.push(key)
+                }
+              })
+            }
+            return keys
+          },
+          dispose(
+            key: string | number,
+            disposeOptions?: StoreDisposeOptions,
+            pinia?: Pinia | null
+          ) {
+            pinia = pinia || getActivePinia()
+            const store = pinia && pinia._s.get(`${id}:${key}`)
+            if (store) store.$dispose(disposeOptions)
+          },
+        }
+      )
+    : function useStore(pinia?: Pinia | null, hot?: StoreGeneric) {
+        return getStore(id, setup, pinia, hot)
+      } as any
+
   useStore.$id = id;
 
   // 将 useStore 函数返回出去，但不会立即调用，在组件内使用 store 时才会调用。
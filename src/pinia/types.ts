@@ -63,7 +63,44 @@ export enum MutationType {
    */
   patchFunction = 'patch function',
 
-  // maybe reset? for $state = {} and $reset
+  /**
+   * Reset the state to its initial value with `$reset()`
+   *
+   * - `store.$reset()`
+   */
+  reset = 'reset',
+
+  /**
+   * Replaced the whole state
+   *
+   * - `store.$state = { name: 'newName' }`
+   * - pasting or importing the state from devtools
+   */
+  replaceState = 'replace state',
+}
+
+/**
+ * A single change applied to the state of a store. Items inserted in or
+ * removed from an array are reported one by one while arrays whose items are
+ * moved (e.g. with `sort()`) are reported as a single change of the whole
+ * array.
+ */
+export interface StateChange {
+  /**
+   * Path of the changed value in the state of the store, e.g.
+   * `['user', 'name']` or `['list', 2]`.
+   */
+  path: Array<string | number>
+
+  /**
+   * Value before the change, `undefined` if the property was added.
+   */
+  oldValue: unknown
+
+  /**
+   * Value after the change, `undefined` if the property was deleted.
+   */
+  newValue: unknown
 }
 
 /**
@@ -86,6 +123,12 @@ export interface _SubscriptionCallbackMutationBase {
    * devtools and plugins **during development only**.
    */
   events?: DebuggerEvent[] | DebuggerEvent
+
+  /**
+   * Concrete changes made to the state by the mutation. Unlike `events`, it
+   * is also available in production.
+   */
+  changes: StateChange[]
 }
 
 /**
@@ -132,6 +175,37 @@ export interface SubscriptionCallbackMutationPatchFunction
   // payload: DeepPartial<UnwrapRef<S>>
 }
 
+/**
+ * Context passed to a subscription callback when `store.$reset()` is called.
+ */
+export interface SubscriptionCallbackMutationReset<S>
+  extends _SubscriptionCallbackMutationBase {
+  type: MutationType.reset
+
+  events: DebuggerEvent[]
+
+  /**
+   * State the store was reset to.
+   */
+  payload: _DeepPartial<S>
+}
+
+/**
+ * Context passed to a subscription callback when the whole state is replaced
+ * with `store.$state = newState` or from devtools.
+ */
+export interface SubscriptionCallbackMutationReplaceState<S>
+  extends _SubscriptionCallbackMutationBase {
+  type: MutationType.replaceState
+
+  events: DebuggerEvent[]
+
+  /**
+   * New state of the store.
+   */
+  payload: _DeepPartial<S>
+}
+
 /**
  * Context object passed to a subscription callback.
  */
@@ -139,6 +213,8 @@ export type SubscriptionCallbackMutation<S> =
   | SubscriptionCallbackMutationDirect
   | SubscriptionCallbackMutationPatchObject<S>
   | SubscriptionCallbackMutationPatchFunction
+  | SubscriptionCallbackMutationReset<S>
+  | SubscriptionCallbackMutationReplaceState<S>
 
 /**
  * Callback of a subscription
@@ -194,21 +270,75 @@ export interface _StoreOnActionListenerContext<
     ? Parameters<A[ActionName]>
     : unknown[]
 
+  /**
+   * Signal of this invocation of the action. It's aborted with an
+   * `ActionCancelledError` when `store.$cancel()` is called while the action
+   * is running.
+   */
+  signal: AbortSignal
+
+  /**
+   * Unique id of this invocation of the action. Allows matching the `after()`
+   * and `onError()` callbacks with the invocation.
+   */
+  invocationId: number
+
+  /**
+   * Timestamp (`Date.now()`) of the moment the action started.
+   */
+  startTime: number
+
+  /**
+   * Number of the current attempt, starting at 1. Incremented each time the
+   * action is retried. @see {@link ActionOptions.retry}.
+   */
+  attempt: number
+
+  /**
+   * Sets up a hook called before the action is retried. It receives the error
+   * of the failed attempt and its number.
+   */
+  onRetry: (callback: (error: unknown, attempt: number) => void) => void
+
   /**
    * Sets up a hook once the action is finished. It receives the return value
    * of the action, if it's a Promise, it will be unwrapped.
    */
   after: (
     callback: A extends Record<ActionName, _Method>
-      ? (resolvedReturn: _Awaited<ReturnType<A[ActionName]>>) => void
-      : () => void
+      ? (
+          resolvedReturn: _Awaited<ReturnType<A[ActionName]>>,
+          timing: ActionTiming
+        ) => void
+      : (resolvedReturn: unknown, timing: ActionTiming) => void
   ) => void
 
   /**
    * Sets up a hook if the action fails. Return `false` to catch the error and
    * stop it from propagating.
    */
-  onError: (callback: (error: unknown) => void) => void
+  onError: (callback: (error: unknown, timing: ActionTiming) => void) => void
+}
+
+/**
+ * Timing information of an action invocation passed to the `after()` and
+ * `onError()` callbacks of `store.$onAction()`.
+ */
+export interface ActionTiming {
+  /**
+   * Unique id of the invocation. Same as the one in the context.
+   */
+  invocationId: number
+
+  /**
+   * Timestamp (`Date.now()`) of the moment the action started.
+   */
+  startTime: number
+
+  /**
+   * Time in milliseconds the action took to finish or fail.
+   */
+  duration: number
 }
 
 /**
@@ -346,10 +476,83 @@ export interface _StoreWithState<
 
   /**
    * Resets the store to its initial state by building a new state object.
-   * TODO: make this options only
+   * Option stores call `state()` again while setup stores use the `reset`
+   * option or a copy of the state captured when the store was created. If
+   * `state()` is async, the state is replaced once it resolves.
    */
   $reset(): void
 
+  /**
+   * Promise resolved once the store is initialized: right away unless the
+   * `state()` function of an option store or the setup function of a setup
+   * store is async. Plugins are only applied to such stores once the
+   * function resolves, so they can access the state and actions. It rejects
+   * if the function does, the error is also passed to the error handlers of
+   * the pinia (`pinia.onActionError()`) and plugins are not applied. A store
+   * that failed to initialize stays uninitialized: dispose it with
+   * `store.$dispose({ clearState: true })` and call `useStore()` again to
+   * retry.
+   */
+  $ready: Promise<void>
+
+  /**
+   * Whether the store is initialized. Reactive. @see {@link $ready}.
+   */
+  readonly $initialized: boolean
+
+  /**
+   * Restores the state recorded before the last mutation. Only available when
+   * the `history` option is enabled.
+   */
+  $undo(): void
+
+  /**
+   * Reapplies the last mutation reverted by `store.$undo()`. Only available
+   * when the `history` option is enabled.
+   */
+  $redo(): void
+
+  /**
+   * Whether `store.$undo()` has an entry to restore. Always `false` when the
+   * `history` option is disabled.
+   */
+  readonly $canUndo: boolean
+
+  /**
+   * Whether `store.$redo()` has an entry to reapply. Always `false` when the
+   * `history` option is disabled.
+   */
+  readonly $canRedo: boolean
+
+  /**
+   * Runs `fn` and restores the state as it was before calling it if `fn`
+   * throws or if the promise it returns rejects.
+   *
+   * @param fn - function that mutates the state
+   * @returns the value returned by `fn`
+   */
+  $transaction<R>(fn: () => R): R
+
+  /**
+   * Pauses the subscriptions of the store while `fn` runs and notifies them
+   * only once at the end with a single mutation containing all the debugger
+   * events. `fn` **must be synchronous**.
+   *
+   * @param fn - function that mutates the state
+   * @returns the value returned by `fn`
+   */
+  $batch<R>(fn: () => R): R
+
+  /**
+   * Aborts the `AbortSignal` of the running invocations of an action, or of
+   * all actions if no name is given. Running async actions are rejected with
+   * an `ActionCancelledError` and their `onError()` callbacks are called with
+   * it.
+   *
+   * @param actionName - name of the action to cancel
+   */
+  $cancel(actionName?: keyof A & string): void
+
   /**
    * Setups a callback to be called whenever the state changes. It also returns a function to remove the callback. Note
    * that when calling `store.$subscribe()` inside of a component, it will be automatically cleaned up when the
@@ -358,6 +561,8 @@ export interface _StoreWithState<
    * @param callback - callback passed to the watcher
    * @param options - `watch` options + `detached` to detach the subscription from the context (usually a component)
    * this is called from. Note that the `flush` option does not affect calls to `store.$patch()`.
+   * Direct mutations of an array are reported once per array operation, before the next `flush: 'pre'` watchers run,
+   * even with `flush: 'sync'`.
    * @returns function that removes the watcher
    */
   $subscribe(
@@ -410,11 +615,13 @@ export interface _StoreWithState<
    * Stops the associated effect scope of the store and remove it from the store
    * registry. Plugins can override this method to cleanup any added effects.
    * e.g. devtools plugin stops displaying disposed stores from devtools.
-   * Note this doesn't delete the state of the store, you have to do it manually with
-   * `delete pinia.state.value[store.$id]` if you want to. If you don't and the
-   * store is used again, it will reuse the previous state.
+   * Note this doesn't delete the state of the store unless `clearState` is
+   * passed. If it isn't and the store is used again, it will reuse the
+   * previous state.
+   *
+   * @param options - whether to also delete the state
    */
-  $dispose(): void
+  $dispose(options?: StoreDisposeOptions): void
 
   /**
    * Vue 2 only. Is the store ready. Used for store cross usage. Getters automatically compute when they are added to
@@ -432,6 +639,92 @@ export interface _StoreWithState<
  */
 export type _Method = (...args: any[]) => any
 
+/**
+ * Options of an action. Passed to `defineAction()` in setup stores or through
+ * the `actionOptions` option in option stores.
+ */
+export interface ActionOptions {
+  /**
+   * Restores the state as it was before calling the action if the action
+   * throws or if the promise it returns rejects. Same as wrapping the action
+   * with `store.$transaction()`.
+   */
+  transactional?: boolean
+
+  /**
+   * How concurrent invocations of an async action are handled:
+   * - `parallel` (default): every invocation runs
+   * - `takeLatest`: a new invocation cancels the running ones with
+   *   `store.$cancel()`. The cancelled actions keep running so they should
+   *   check their signal before writing to the state. Their `onError()`
+   *   callbacks receive an `ActionCancelledError` but the promises they
+   *   returned settle with the result of the latest invocation, so calls
+   *   that are not awaited do not cause unhandled rejections
+   * - `takeFirst`: while an invocation is running, new invocations return its
+   *   promise instead of running the action again
+   * - `queue`: invocations run one after another
+   */
+  concurrency?: ActionConcurrency
+
+  /**
+   * Calls the action again when the promise it returns rejects. A number sets
+   * the maximum number of attempts. The `onError()` callbacks of
+   * `store.$onAction()` are only called once all the attempts failed. Errors
+   * thrown synchronously are never retried.
+   */
+  retry?: number | ActionRetryOptions
+}
+
+/**
+ * Retry behaviour of an action. @see {@link ActionOptions.retry}.
+ */
+export interface ActionRetryOptions {
+  /**
+   * Maximum number of attempts, including the first call. Defaults to 3.
+   */
+  attempts?: number
+
+  /**
+   * Time in milliseconds to wait before the first retry. Defaults to 0.
+   */
+  delay?: number
+
+  /**
+   * Multiplier applied to the delay after each failed attempt. Defaults to 2.
+   */
+  factor?: number
+
+  /**
+   * Maximum time in milliseconds to wait between two attempts.
+   */
+  maxDelay?: number
+
+  /**
+   * Returns whether the action should be called again after `error`. Defaults
+   * to retrying on any error.
+   *
+   * @param error - error the action rejected with
+   * @param attempt - number of the attempt that failed, starting at 1
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean
+}
+
+/**
+ * Possible values of the `concurrency` option of an action.
+ */
+export type ActionConcurrency = 'parallel' | 'takeLatest' | 'takeFirst' | 'queue'
+
+/**
+ * Properties only available on `this` inside of an action.
+ */
+export interface _ActionContext {
+  /**
+   * Signal of the current invocation of the action. Aborted when the action
+   * is cancelled with `store.$cancel()`.
+   */
+  $signal: AbortSignal
+}
+
 // export type StoreAction<P extends any[], R> = (...args: P) => R
 // export interface StoreAction<P, R> {
 //   (...args: P[]): R
@@ -517,6 +810,58 @@ export interface StoreDefinition<
   _pinia?: Pinia
 }
 
+/**
+ * Return type of `defineStore()` for setup stores with the `keyed` option.
+ */
+export interface KeyedStoreDefinition<
+  Id extends string = string,
+  K extends string | number = string | number,
+  S extends StateTree = StateTree,
+  G /* extends GettersTree<S>*/ = _GettersTree<S>,
+  A /* extends ActionsTree */ = _ActionsTree
+> {
+  /**
+   * Returns the store of `key`, creates it if necessary.
+   *
+   * @param key - key of the store, passed to the setup function
+   * @param pinia - Pinia instance to retrieve the store
+   * @param hot - dev only hot module replacement
+   */
+  (
+    key: K,
+    pinia?: Pinia | null | undefined,
+    hot?: StoreGeneric
+  ): Store<`${Id}:${K}`, S, G, A>
+
+  /**
+   * Id of the store definition. Each store has an id of `` `${id}:${key}` ``.
+   */
+  $id: Id
+
+  /**
+   * Returns the keys of the existing stores.
+   *
+   * @param pinia - Pinia instance to look the stores up in
+   */
+  keys(pinia?: Pinia | null): K[]
+
+  /**
+   * Disposes the store of `key` if it exists. @see {@link _StoreWithState.$dispose}.
+   *
+   * @param key - key of the store
+   * @param options - options passed to `store.$dispose()`
+   * @param pinia - Pinia instance to look the store up in
+   */
+  dispose(key: K, options?: StoreDisposeOptions, pinia?: Pinia | null): void
+
+  /**
+   * Dev only pinia for HMR.
+   *
+   * @internal
+   */
+  _pinia?: Pinia
+}
+
 /**
  * Interface to be extended by the user when they add properties through plugins.
  */
@@ -610,7 +955,76 @@ export type _ExtractGettersFromSetupStore<SS> = SS extends undefined | void
  * stores. Extend this interface if you want to add custom options to both kinds
  * of stores.
  */
-export interface DefineStoreOptionsBase<S extends StateTree, Store> {}
+export interface DefineStoreOptionsBase<S extends StateTree, Store> {
+  /**
+   * Records the state before every mutation to enable `store.$undo()` and
+   * `store.$redo()`. Mutations made while an action runs are grouped into a
+   * single entry, as are the changes made by one array method call. Mutations
+   * that leave the state unchanged, like a rolled back transaction, are not
+   * recorded. Pass an object to limit the number of kept entries (defaults to
+   * 100).
+   */
+  history?: boolean | StoreHistoryOptions
+
+  /**
+   * Validates the state after every mutation (`$patch()`, direct mutations,
+   * `$reset()`, replacing `$state`) and after hydration. Violations are passed
+   * to the `onValidationError` option of `createPinia()` or logged with
+   * `console.warn()` if it isn't provided.
+   */
+  validate?: StateValidator<S>
+
+  /**
+   * Disposes the store once no component uses it anymore. The store counts
+   * the component effect scopes (or any effect scope, e.g. the one of another
+   * store) calling `useStore()` and calls `store.$dispose()` when the last one
+   * is stopped. Pass an object to wait some time before disposing it or to
+   * also delete its state.
+   */
+  autoDispose?: boolean | StoreAutoDisposeOptions
+}
+
+/**
+ * Options of the `autoDispose` option of `defineStore()`.
+ */
+export interface StoreAutoDisposeOptions extends StoreDisposeOptions {
+  /**
+   * Time in milliseconds to wait after the last component stopped using the
+   * store before disposing it. The store is kept if it is used again in the
+   * meantime. Defaults to 0, disposing it right away.
+   */
+  delay?: number
+}
+
+/**
+ * Validates the state of a store. Returning `false`, an error message or a
+ * non empty list of error messages marks the state as invalid. Returning
+ * `true` or nothing marks it as valid.
+ */
+export type StateValidator<S extends StateTree> = (
+  state: UnwrapRef<S>
+) => boolean | string | string[] | void
+
+/**
+ * Options of `store.$dispose()` and `pinia.disposeAll()`.
+ */
+export interface StoreDisposeOptions {
+  /**
+   * Deletes the state of the store from `pinia.state.value` so it is not
+   * reused if the store is created again nor serialized during SSR.
+   */
+  clearState?: boolean
+}
+
+/**
+ * Options of the `history` option of `defineStore()`.
+ */
+export interface StoreHistoryOptions {
+  /**
+   * Maximum number of entries that can be undone. Defaults to 100.
+   */
+  maxDepth?: number
+}
 
 /**
  * Options parameter of `defineStore()` for option stores. Can be extended to
@@ -629,9 +1043,10 @@ export interface DefineStoreOptions<
 
   /**
    * Function to create a fresh state. **Must be an arrow function** to ensure
-   * correct typings!
+   * correct typings! It can be async: the state properties are then only
+   * available once `store.$ready` resolves.
    */
-  state?: () => S
+  state?: () => S | Promise<S>
 
   /**
    * Optional object of getters.
@@ -649,9 +1064,15 @@ export interface DefineStoreOptions<
         UnwrapRef<S> &
         _StoreWithState<Id, S, G, A> &
         _StoreWithGetters<G> &
+        _ActionContext &
         PiniaCustomProperties
     >
 
+  /**
+   * Optional object of options for each action. @see {@link ActionOptions}.
+   */
+  actionOptions?: { [K in keyof A]?: ActionOptions }
+
   /**
    * Allows hydrating the store during SSR when complex state (like client side only refs) are used in the store
    * definition and copying the value from `pinia.state` isn't enough.
@@ -696,6 +1117,44 @@ export interface DefineSetupStoreOptions<
    * store defined with a setup function. Note this is always defined
    */
   actions?: A
+
+  /**
+   * Function returning the state used by `store.$reset()`. Defaults to a
+   * deep copy of the state captured when the store was created, before
+   * hydration. Objects marked with `skipHydrate()` and other stores used
+   * in the setup are never reset. Providing this option avoids copying the
+   * state when the store is created.
+   *
+   * @example
+   * ```ts
+   * const useStore = defineStore('main', () => {
+   *   const n = ref(0)
+   *   return { n }
+   * }, {
+   *   reset: () => ({ n: 0 })
+   * })
+   * ```
+   */
+  reset?: () => _DeepPartial<UnwrapRef<S>>
+
+  /**
+   * Creates a different store for each key passed to `useStore(key)`. The
+   * setup function receives the key and the id of each store is
+   * `` `${id}:${key}` ``.
+   *
+   * @example
+   * ```ts
+   * const useDocStore = defineStore('doc', (docId: string) => {
+   *   const content = ref('')
+   *   return { docId, content }
+   * }, { keyed: true })
+   *
+   * const doc = useDocStore('readme') // store "doc:readme"
+   * useDocStore.keys() // ['readme']
+   * useDocStore.dispose('readme')
+   * ```
+   */
+  keyed?: boolean
 }
 
 /**